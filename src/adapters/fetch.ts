@@ -1,17 +1,25 @@
 import { TRPCError } from '@trpc/server';
 import { FetchHandlerOptions } from '@trpc/server/adapters/fetch';
+import { EventEmitter } from 'events';
 import { IncomingMessage, ServerResponse } from 'http';
 
 import { OpenApiRouter } from '../types';
-import { createOpenApiNodeHttpHandler } from './node-http';
+import { OpenApiHandlerOptions, createOpenApiNodeHttpHandler } from './node-http';
 
 export type CreateOpenApiFetchHandlerOptions<TRouter extends OpenApiRouter> = Omit<
   FetchHandlerOptions<TRouter>,
   'batching'
-> & {
-  req: Request;
-  endpoint: `/${string}`;
-};
+> &
+  OpenApiHandlerOptions & {
+    req: Request;
+    endpoint: `/${string}`;
+    /**
+     * Maximum size in bytes of a request body read from a stream, e.g. a `multipart/form-data`
+     * body.
+     * @default 100_000
+     */
+    maxBodySize?: number;
+  };
 
 const getUrlEncodedBody = async (req: Request) => {
   const params = new URLSearchParams(await req.text());
@@ -55,7 +63,7 @@ const getRequestBody = async (req: Request) => {
   }
 };
 
-const createRequestProxy = async (req: Request, url?: string) => {
+const createRequestProxy = async (req: Request, url?: string, signal?: AbortSignal) => {
   const body = await getRequestBody(req);
 
   return new Proxy(req, {
@@ -64,6 +72,10 @@ const createRequestProxy = async (req: Request, url?: string) => {
         return url ? url : target.url;
       }
 
+      if (prop === 'signal') {
+        return signal ?? target.signal;
+      }
+
       if (prop === 'body') {
         if (!body.isValid) {
           throw new TRPCError({
@@ -86,15 +98,35 @@ export const createOpenApiFetchHandler = async <TRouter extends OpenApiRouter>(
 ): Promise<Response> => {
   const resHeaders = new Headers();
   const url = new URL(opts.req.url.replace(opts.endpoint, ''));
-  const req: Request = await createRequestProxy(opts.req, url.toString());
+  // also aborted when the consumer cancels a streamed response, e.g. a subscription
+  const abortController = new AbortController();
+  opts.req.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+  const req: Request = await createRequestProxy(opts.req, url.toString(), abortController.signal);
 
   // @ts-expect-error FIXME
   const openApiHttpHandler = createOpenApiNodeHttpHandler(opts);
 
   return new Promise<Response>((resolve) => {
     let statusCode: number;
+    // created on the first `write`, streamed responses resolve before the body is complete
+    let streamController: ReadableStreamDefaultController<Uint8Array> | undefined;
+
+    const enqueue = (chunk: string | Uint8Array) => {
+      if (abortController.signal.aborted) {
+        return;
+      }
+      streamController?.enqueue(
+        typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk,
+      );
+    };
+
+    // `writeStream` waits for `drain` once the consumer of a streamed response falls behind
+    const events = new EventEmitter();
 
     const res = {
+      get headersSent() {
+        return !!streamController;
+      },
       setHeader: (key: string, value: string | readonly string[]) => {
         if (typeof value === 'string') {
           resHeaders.set(key, value);
@@ -110,7 +142,51 @@ export const createOpenApiFetchHandler = async <TRouter extends OpenApiRouter>(
       set statusCode(code: number) {
         statusCode = code;
       },
-      end: (body: string) => {
+      write: (chunk: string | Uint8Array) => {
+        if (!streamController) {
+          const stream = new ReadableStream<Uint8Array>(
+            {
+              start: (controller) => {
+                streamController = controller;
+              },
+              pull: () => {
+                events.emit('drain');
+              },
+              cancel: () => {
+                abortController.abort();
+                events.emit('close');
+              },
+            },
+            new ByteLengthQueuingStrategy({ highWaterMark: 16_384 }),
+          );
+          resolve(
+            new Response(stream, {
+              headers: resHeaders,
+              status: statusCode,
+            }),
+          );
+        }
+        enqueue(chunk);
+        return (streamController?.desiredSize ?? 0) > 0;
+      },
+      // fails the stream of a response that cannot be completed, so that it is not read as complete
+      destroy: () => {
+        if (streamController && !abortController.signal.aborted) {
+          streamController.error(new Error('The response was aborted'));
+        }
+      },
+      once: (event: string, listener: () => void) => events.once(event, listener),
+      off: (event: string, listener: () => void) => events.off(event, listener),
+      end: (body?: string | Uint8Array) => {
+        if (streamController) {
+          if (body !== undefined) {
+            enqueue(body);
+          }
+          if (!abortController.signal.aborted) {
+            streamController.close();
+          }
+          return;
+        }
         resolve(
           new Response(body, {
             headers: resHeaders,
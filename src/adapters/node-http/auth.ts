@@ -0,0 +1,156 @@
+import { TRPCError } from '@trpc/server';
+import { type NodeHTTPResponse } from '@trpc/server/adapters/node-http';
+
+import { defaultSecuritySchemes } from '../../generator';
+import {
+  NodeHTTPRequest,
+  OpenApiAuthOptions,
+  OpenApiCredential,
+  OpenApiSecurityRequirement,
+  SecuritySchemeObject,
+} from '../../types';
+import { getRequestCookie, getRequestHeader } from '../../utils';
+import { getQuery } from './input';
+
+const getAuthorization = (req: NodeHTTPRequest, type: string): string | undefined => {
+  const authorization = getRequestHeader(req, 'authorization');
+  const separator = authorization?.indexOf(' ') ?? -1;
+  if (!authorization || separator === -1) {
+    return undefined;
+  }
+  if (authorization.slice(0, separator).toLowerCase() !== type) {
+    return undefined;
+  }
+  return authorization.slice(separator + 1).trim() || undefined;
+};
+
+const getCredential = (
+  req: NodeHTTPRequest,
+  url: URL,
+  securityScheme: SecuritySchemeObject,
+): OpenApiCredential | undefined => {
+  if (securityScheme.type === 'http') {
+    const scheme = securityScheme.scheme?.toLowerCase();
+    if (scheme === 'bearer') {
+      const token = getAuthorization(req, 'bearer');
+      return token ? { type: 'bearer', token } : undefined;
+    }
+    if (scheme === 'basic') {
+      const encoded = getAuthorization(req, 'basic');
+      if (!encoded) {
+        return undefined;
+      }
+      const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator === -1) {
+        return undefined;
+      }
+      return {
+        type: 'basic',
+        username: decoded.slice(0, separator),
+        password: decoded.slice(separator + 1),
+      };
+    }
+    return undefined;
+  }
+  if (securityScheme.type === 'apiKey' && securityScheme.name) {
+    let key: unknown;
+    if (securityScheme.in === 'header') {
+      key = getRequestHeader(req, securityScheme.name);
+    } else if (securityScheme.in === 'query') {
+      key = getQuery(req, url)[securityScheme.name];
+    } else if (securityScheme.in === 'cookie') {
+      key = getRequestCookie(req, securityScheme.name);
+    }
+    return typeof key === 'string' && key ? { type: 'apiKey', key } : undefined;
+  }
+  // access tokens of oauth2 & openIdConnect flows are sent as bearer tokens
+  if (securityScheme.type === 'oauth2' || securityScheme.type === 'openIdConnect') {
+    const token = getAuthorization(req, 'bearer');
+    return token ? { type: 'bearer', token } : undefined;
+  }
+  return undefined;
+};
+
+// challenges for the `WWW-Authenticate` header of `401` responses, e.g. `Bearer, Basic`
+const getChallenges = (securitySchemes: Record<string, SecuritySchemeObject>) => {
+  const challenges = new Set<string>();
+  for (const securityScheme of Object.values(securitySchemes)) {
+    if (securityScheme.type === 'http' && securityScheme.scheme) {
+      const scheme = securityScheme.scheme.toLowerCase();
+      challenges.add(`${scheme.charAt(0).toUpperCase()}${scheme.slice(1)}`);
+    } else if (securityScheme.type === 'oauth2' || securityScheme.type === 'openIdConnect') {
+      challenges.add('Bearer');
+    }
+  }
+  return Array.from(challenges);
+};
+
+/**
+ * Verifies the credentials of the first satisfied security requirement, every scheme of a
+ * requirement has to be verified while any one requirement is enough. Requirements default to each
+ * security scheme on its own, the same way `generateOpenApiDocument` documents them.
+ */
+export const authenticate = async (
+  req: NodeHTTPRequest,
+  res: NodeHTTPResponse,
+  url: URL,
+  opts: OpenApiAuthOptions,
+  security?: OpenApiSecurityRequirement[],
+): Promise<{ scheme: string; principal: unknown } | undefined> => {
+  const securitySchemes = opts.securitySchemes ?? defaultSecuritySchemes;
+  const requirements = security ?? Object.keys(securitySchemes).map((name) => ({ [name]: [] }));
+
+  // a scheme shared by several requirements is only verified once
+  const principals = new Map<string, unknown>();
+  const verifyScheme = async (scheme: string) => {
+    if (!principals.has(scheme)) {
+      const securityScheme = securitySchemes[scheme];
+      const credential = securityScheme && getCredential(req, url, securityScheme);
+      const principal = credential ? await opts.verify({ scheme, credential, req }) : undefined;
+      principals.set(scheme, principal ?? undefined);
+    }
+    return principals.get(scheme);
+  };
+
+  let isMissingScope = false;
+  for (const requirement of requirements) {
+    let result: { scheme: string; principal: unknown } | undefined = undefined;
+    let isSatisfied = true;
+    for (const [scheme, scopes] of Object.entries(requirement)) {
+      const principal = await verifyScheme(scheme);
+      if (principal === undefined) {
+        isSatisfied = false;
+        break;
+      }
+      if (scopes.length > 0 && opts.getScopes) {
+        const grantedScopes = await opts.getScopes({ scheme, principal });
+        if (!scopes.every((scope) => grantedScopes.includes(scope))) {
+          isMissingScope = true;
+          isSatisfied = false;
+          break;
+        }
+      }
+      result ??= { scheme, principal };
+    }
+    if (isSatisfied) {
+      return result;
+    }
+  }
+
+  if (isMissingScope) {
+    throw new TRPCError({
+      message: 'Insufficient scope',
+      code: 'FORBIDDEN',
+    });
+  }
+
+  const challenges = getChallenges(securitySchemes);
+  if (challenges.length > 0) {
+    res.setHeader('WWW-Authenticate', challenges.join(', '));
+  }
+  throw new TRPCError({
+    message: 'Unauthorized',
+    code: 'UNAUTHORIZED',
+  });
+};
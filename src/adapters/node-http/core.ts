@@ -5,13 +5,19 @@ import {
   type NodeHTTPResponse,
 } from '@trpc/server/adapters/node-http';
 import { getErrorShape, TRPCRequestInfo } from '@trpc/server/unstable-core-do-not-import';
-import { ZodArray, ZodError, ZodTypeAny } from 'zod';
+import { STATUS_CODES } from 'http';
+import { ZodError, ZodTypeAny } from 'zod';
 import { NodeHTTPRequest } from '../../types';
-import { generateOpenApiDocument } from '../../generator';
+import { defaultSecuritySchemes } from '../../generator';
+import { validateOpenApiRouter } from '../../generator/validate';
 import {
+  OpenApiAuthOptions,
+  OpenApiCorsOptions,
+  OpenApiErrorCode,
+  OpenApiErrorFormat,
   OpenApiErrorResponse,
   OpenApiMethod,
-  OpenApiProcedure,
+  OpenApiProblemResponse,
   OpenApiResponse,
   OpenApiRouter,
   OpenApiSuccessResponse,
@@ -21,16 +27,48 @@ import {
   normalizePath,
   getInputOutputParsers,
   coerceSchema,
+  instanceofZodTypeArray,
+  isProtectedProcedure,
   instanceofZodTypeLikeVoid,
   instanceofZodTypeObject,
   unwrapZodType,
   zodSupportsCoerce,
   getContentType,
+  getContentTypes,
+  getInputBindings,
+  getMediaType,
+  getParamExplode,
+  getRequestHeader,
   getRequestSignal,
 } from '../../utils';
-import { TRPC_ERROR_CODE_HTTP_STATUS, getErrorFromUnknown } from './errors';
-import { getBody, getQuery } from './input';
+import { authenticate } from './auth';
+import { resolveCorsOptions, setCorsHeaders, setCorsPreflightHeaders } from './cors';
+import {
+  OpenApiErrorCodes,
+  getErrorCodeStatus,
+  getErrorData,
+  getErrorDataSchema,
+  getErrorFromUnknown,
+} from './errors';
+import {
+  OpenApiBodyParser,
+  assertFileSizes,
+  defaultBodyParsers,
+  getBody,
+  getBoundInput,
+  getQuery,
+} from './input';
 import { createProcedureCache } from './procedures';
+import {
+  createResponseControl,
+  isAsyncIterable,
+  serializeErrorEvent,
+  serializeErrorLine,
+  validateResponseHeaders,
+  writeJsonStream,
+  writeRawBody,
+  writeServerSentEvents,
+} from './response';
 
 export type CreateOpenApiNodeHttpHandlerOptions<
   TRouter extends OpenApiRouter,
@@ -39,7 +77,63 @@ export type CreateOpenApiNodeHttpHandlerOptions<
 > = Pick<
   NodeHTTPHandlerOptions<TRouter, TRequest, TResponse>,
   'router' | 'createContext' | 'responseMeta' | 'onError' | 'maxBodySize'
->;
+> &
+  OpenApiHandlerOptions;
+
+export interface OpenApiHandlerOptions {
+  /**
+   * Answer `HEAD` requests by running the matching `GET` procedure and sending its headers only.
+   * @default true
+   */
+  autoHead?: boolean;
+  /**
+   * Answer `OPTIONS` requests with the methods allowed for the requested path.
+   * @default true
+   */
+  autoOptions?: boolean;
+  /**
+   * Reject calls to protected procedures with `401` unless the credentials of one of their
+   * `meta.openapi.security` requirements, or of any security scheme by default, are verified. The
+   * principal is passed to procedures as `ctx.openApiAuth`.
+   */
+  auth?: OpenApiAuthOptions;
+  /**
+   * Add CORS headers to responses and answer preflight requests from the route table. Can be
+   * overridden per procedure with `meta.openapi.cors`.
+   * @default false
+   */
+  cors?: boolean | OpenApiCorsOptions;
+  /**
+   * Error codes added to the tRPC codes, or replacing their status. Error classes listed for a code
+   * are sent with its code, status and their own message when a procedure throws them. Has to match
+   * the `errorCodes` of `generateOpenApiDocument`.
+   */
+  errorCodes?: OpenApiErrorCodes;
+  /**
+   * Format of error bodies, `problem` sends RFC 9457 `application/problem+json` problem details.
+   * @default 'default'
+   */
+  errorFormat?: OpenApiErrorFormat;
+  /**
+   * Body parsers keyed by media type, merged over the built-in `application/json`,
+   * `application/x-www-form-urlencoded`, `multipart/form-data` and `text/plain` parsers. A request
+   * body is only parsed if its media type is listed in the procedure `meta.openapi.contentTypes`.
+   */
+  bodyParsers?: Record<string, OpenApiBodyParser>;
+  /**
+   * Maximum size in bytes of each file uploaded in a `multipart/form-data` body, the body as a
+   * whole is limited by `maxBodySize`.
+   */
+  maxFileSize?: number;
+  /**
+   * Answer `HEAD` requests that do not match any procedure with an empty `204` response, which can
+   * be used to warm up serverless functions.
+   * @default false
+   */
+  warmup?: boolean;
+}
+
+const ALLOW_METHOD_ORDER = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
 
 export type OpenApiNextFunction = () => void;
 
@@ -52,27 +146,88 @@ export const createOpenApiNodeHttpHandler = <
 ) => {
   const router = Object.assign({}, opts.router);
 
-  // Validate router
+  // Validate router, security requirements are only checked if they are verified at runtime
   if (process.env.NODE_ENV !== 'production') {
-    generateOpenApiDocument(router, { title: '', version: '', baseUrl: '' });
+    validateOpenApiRouter(router, {
+      securitySchemes: opts.auth && (opts.auth.securitySchemes ?? defaultSecuritySchemes),
+      errorFormat: opts.errorFormat,
+    });
   }
 
-  const { createContext, responseMeta, onError, maxBodySize } = opts;
+  const {
+    createContext,
+    responseMeta,
+    onError,
+    maxBodySize,
+    autoHead = true,
+    autoOptions = true,
+    warmup = false,
+    cors,
+    auth,
+    maxFileSize,
+    errorFormat = 'default',
+    errorCodes,
+  } = opts;
+  const bodyParsers = { ...defaultBodyParsers, ...opts.bodyParsers };
   const getProcedure = createProcedureCache(router);
 
+  const getAllowedMethods = (path: string): string[] => {
+    const methods: string[] = getProcedure.getAllowedMethods(path);
+    if (methods.length === 0) {
+      return methods;
+    }
+    if (autoHead && methods.includes('GET')) {
+      methods.push('HEAD');
+    }
+    if (autoOptions) {
+      methods.push('OPTIONS');
+    }
+    return methods.sort((a, b) => ALLOW_METHOD_ORDER.indexOf(a) - ALLOW_METHOD_ORDER.indexOf(b));
+  };
+
   return async (req: TRequest, res: TResponse, next?: OpenApiNextFunction) => {
-    const sendResponse = (statusCode: number, headers: HTTPHeaders, body: OpenApiResponse) => {
+    const setResponseHeaders = (statusCode: number, headers: HTTPHeaders, contentType: string) => {
       res.statusCode = statusCode;
-      res.setHeader('Content-Type', 'application/json');
+      if (statusCode !== 204) {
+        res.setHeader('Content-Type', contentType);
+      }
       for (const [key, value] of Object.entries(headers)) {
         if (typeof value !== 'undefined') {
           res.setHeader(key, value as string);
         }
       }
+    };
+
+    const sendResponse = (
+      statusCode: number,
+      headers: HTTPHeaders,
+      body: OpenApiResponse,
+      contentType = 'application/json',
+    ) => {
+      setResponseHeaders(statusCode, headers, contentType);
+      if (req.method === 'HEAD' || statusCode === 204) {
+        res.end();
+        return;
+      }
       res.end(JSON.stringify(body));
     };
 
-    const method = req.method as OpenApiMethod | 'HEAD';
+    const sendRawResponse = async (
+      statusCode: number,
+      headers: HTTPHeaders,
+      contentType: string,
+      body: unknown,
+      signal?: AbortSignal,
+    ) => {
+      setResponseHeaders(statusCode, headers, contentType);
+      if (req.method === 'HEAD' || statusCode === 204) {
+        res.end();
+        return;
+      }
+      await writeRawBody(res, body, signal);
+    };
+
+    const method = req.method as OpenApiMethod | 'HEAD' | 'OPTIONS';
     const reqUrl = req.url!;
     const url = new URL(reqUrl.startsWith('/') ? `http://127.0.0.1${reqUrl}` : reqUrl);
     const path = normalizePath(url.pathname);
@@ -81,30 +236,100 @@ export const createOpenApiNodeHttpHandler = <
     let info: TRPCRequestInfo | undefined = undefined;
     let data: any = undefined;
 
-    const { procedure, pathInput } = getProcedure(method, path) ?? {};
+    // HEAD requests are served by the GET procedure of the same path
+    const procedureMethod = method === 'HEAD' && autoHead ? 'GET' : method;
+    const { procedure, pathInput } =
+      procedureMethod === 'OPTIONS' ? {} : (getProcedure(procedureMethod, path) ?? {});
+
+    const origin = getRequestHeader(req, 'origin');
+    const preflightMethod =
+      method === 'OPTIONS' && origin
+        ? getRequestHeader(req, 'access-control-request-method')
+        : undefined;
+
+    if (origin && preflightMethod) {
+      const preflightProcedureMethod =
+        preflightMethod === 'HEAD' && autoHead ? 'GET' : preflightMethod;
+      const preflightProcedure = getProcedure(
+        preflightProcedureMethod as OpenApiMethod,
+        path,
+      )?.procedure;
+      const corsOptions =
+        preflightProcedure && resolveCorsOptions(cors, preflightProcedure.openapi.cors);
+      if (corsOptions) {
+        setCorsPreflightHeaders(
+          res,
+          corsOptions,
+          origin,
+          getAllowedMethods(path),
+          getRequestHeader(req, 'access-control-request-headers'),
+        );
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+    } else if (origin) {
+      const corsOptions = resolveCorsOptions(cors, procedure?.openapi.cors);
+      if (corsOptions) {
+        setCorsHeaders(res, corsOptions, origin);
+      }
+    }
 
     try {
       if (!procedure) {
+        if (method === 'OPTIONS' && autoOptions) {
+          const allowedMethods = getAllowedMethods(path);
+          if (allowedMethods.length > 0) {
+            res.statusCode = 204;
+            res.setHeader('Allow', allowedMethods.join(', '));
+            res.end();
+            return;
+          }
+        }
+
         if (next) {
           return next();
         }
 
         // Can be used for warmup
-        if (method === 'HEAD') {
+        if (method === 'HEAD' && warmup) {
           sendResponse(204, {}, undefined);
           return;
         }
 
+        const allowedMethods = getAllowedMethods(path);
+        if (allowedMethods.length > 0) {
+          res.setHeader('Allow', allowedMethods.join(', '));
+          throw new TRPCError({
+            message: 'Method not supported',
+            code: 'METHOD_NOT_SUPPORTED',
+          });
+        }
+
         throw new TRPCError({
           message: 'Not found',
           code: 'NOT_FOUND',
         });
       }
 
+      // authenticate before the request body is read
+      const openApiAuth =
+        auth && isProtectedProcedure(procedure.openapi)
+          ? await authenticate(req, res, url, auth, procedure.openapi.security)
+          : undefined;
+
       const contentType = getContentType(req);
-      const useBody = acceptsRequestBody(method);
+      const mediaType = getMediaType(contentType);
+      const useBody = acceptsRequestBody(procedureMethod);
+      const inputParser = getInputOutputParsers(procedure.procedure).inputParser as ZodTypeAny;
+      const contentTypes = getContentTypes(procedure.openapi, inputParser);
 
-      if (useBody && !contentType?.startsWith('application/json')) {
+      if (
+        useBody &&
+        (!mediaType ||
+          !bodyParsers[mediaType] ||
+          !contentTypes.some((type) => getMediaType(type) === mediaType))
+      ) {
         throw new TRPCError({
           code: 'UNSUPPORTED_MEDIA_TYPE',
           message: contentType
@@ -113,24 +338,55 @@ export const createOpenApiNodeHttpHandler = <
         });
       }
 
-      const inputParser = getInputOutputParsers(procedure.procedure).inputParser as ZodTypeAny;
       const unwrappedSchema = unwrapZodType(inputParser, true);
 
       // input should stay undefined if z.void()
       if (!instanceofZodTypeLikeVoid(unwrappedSchema)) {
-        input = {
-          ...(useBody ? await getBody(req, maxBodySize) : getQuery(req, url)),
-          ...pathInput,
-        };
+        const data: unknown = useBody
+          ? await getBody(req, maxBodySize, bodyParsers)
+          : getQuery(req, url);
+        if (maxFileSize !== undefined) {
+          assertFileSizes(data, maxFileSize);
+        }
+        // non-object inputs, e.g. a `text/plain` body, are passed through as they are
+        input =
+          typeof data === 'string' && !instanceofZodTypeObject(unwrappedSchema)
+            ? data
+            : { ...(data as Record<string, unknown>), ...pathInput };
+      }
+
+      const inputBindings = getInputBindings(procedure.openapi);
+      if (input && Object.keys(inputBindings).length > 0) {
+        input = { ...(input as Record<string, unknown>), ...getBoundInput(req, inputBindings) };
+      }
+
+      // `EventSource` sends the id of the last event it received when it reconnects
+      const lastEventId = getRequestHeader(req, 'last-event-id');
+      if (procedure.type === 'subscription' && input && lastEventId !== undefined) {
+        input = { ...(input as Record<string, unknown>), lastEventId };
       }
 
+      // form values arrive as strings, the same way query parameters do
+      const isStringInput =
+        !useBody ||
+        mediaType === 'application/x-www-form-urlencoded' ||
+        mediaType === 'multipart/form-data';
+
       // if supported, coerce all string values to correct types
       if (zodSupportsCoerce && instanceofZodTypeObject(unwrappedSchema)) {
-        if (!useBody) {
+        if (isStringInput && input) {
+          const fields = input as Record<string, unknown>;
           for (const [key, shape] of Object.entries(unwrappedSchema.shape)) {
-            if (shape instanceof ZodArray && !Array.isArray(input[key])) {
-              input[key] = [input[key]];
+            const value = fields[key];
+            if (value === undefined || !instanceofZodTypeArray(unwrapZodType(shape, false))) {
+              continue;
             }
+            const values: unknown[] = Array.isArray(value) ? value : [value];
+            // `explode: false` query parameters are sent comma-separated, e.g. `?tags=a,b`
+            fields[key] =
+              !useBody && !getParamExplode(shape)
+                ? values.flatMap((value) => (typeof value === 'string' ? value.split(',') : value))
+                : values;
           }
         }
         coerceSchema(unwrappedSchema);
@@ -146,16 +402,27 @@ export const createOpenApiNodeHttpHandler = <
         url,
       };
 
-      ctx = await createContext?.({ req, res, info });
+      // procedures set their status, headers & cookies through `ctx.openApiResponse`
+      const responseControl = createResponseControl();
+      const controls = { openApiResponse: responseControl, openApiAuth };
+      const userCtx = await createContext?.({ req, res, info });
+      // added to the context itself to keep class instances intact, a frozen context is copied
+      ctx =
+        typeof userCtx === 'object' && userCtx !== null && Object.isExtensible(userCtx)
+          ? Object.assign(userCtx, controls)
+          : { ...userCtx, ...controls };
       const caller = router.createCaller(ctx);
 
       const segments = procedure.path.split('.');
-      const procedureFn = segments.reduce(
-        (acc, curr) => acc[curr],
-        caller as any,
-      ) as OpenApiProcedure;
+      // callers take the signal that ends subscriptions once the client disconnects
+      const procedureFn = segments.reduce((acc, curr) => acc[curr], caller as any) as (
+        input: unknown,
+        opts: { signal: AbortSignal },
+      ) => Promise<unknown>;
 
-      data = await procedureFn(input);
+      data = await procedureFn(input, { signal: info.signal });
+
+      validateResponseHeaders(responseControl, procedure.openapi.responseHeaders);
 
       const meta = responseMeta?.({
         type: procedure.type,
@@ -167,12 +434,49 @@ export const createOpenApiNodeHttpHandler = <
         eagerGeneration: true,
       });
 
-      const statusCode = meta?.status ?? 200;
-      const headers = meta?.headers ?? {};
+      const statusCode =
+        meta?.status ?? responseControl.status ?? procedure.openapi.successStatus ?? 200;
+      const headers = { ...responseControl.headers, ...meta?.headers };
       const body: OpenApiSuccessResponse<typeof data> = data;
+
+      if (procedure.type === 'subscription') {
+        setResponseHeaders(
+          statusCode,
+          { 'Cache-Control': 'no-cache', ...headers },
+          'text/event-stream',
+        );
+        if (req.method === 'HEAD') {
+          res.end();
+          return;
+        }
+        await writeServerSentEvents(res, data, info.signal);
+        return;
+      }
+
+      const responseContentType = procedure.openapi.responseContentType;
+      const responseMediaType = getMediaType(responseContentType ?? 'application/json');
+      // queries returning async iterables are streamed item by item instead of being serialized
+      if (
+        isAsyncIterable<unknown>(data) &&
+        (responseMediaType === 'application/json' || responseMediaType === 'application/x-ndjson')
+      ) {
+        setResponseHeaders(statusCode, headers, responseContentType ?? 'application/json');
+        if (req.method === 'HEAD' || statusCode === 204) {
+          res.end();
+          return;
+        }
+        await writeJsonStream(res, data, responseMediaType, info.signal);
+        return;
+      }
+
+      if (responseContentType && responseMediaType !== 'application/json') {
+        await sendRawResponse(statusCode, headers, responseContentType, body, info.signal);
+        return;
+      }
+
       sendResponse(statusCode, headers, body);
     } catch (cause) {
-      const error = getErrorFromUnknown(cause);
+      const error = getErrorFromUnknown(cause, errorCodes);
 
       onError?.({
         error,
@@ -200,23 +504,72 @@ export const createOpenApiNodeHttpHandler = <
         path: procedure?.path,
         input,
         ctx,
-      });
+      }) as { message?: string; data?: Record<string, unknown> } | undefined;
 
       const isInputValidationError =
         error.code === 'BAD_REQUEST' &&
         error.cause instanceof Error &&
         error.cause.name === 'ZodError';
 
-      const statusCode = meta?.status ?? TRPC_ERROR_CODE_HTTP_STATUS[error.code] ?? 500;
+      const code = error.code as OpenApiErrorCode;
+      const codeStatus = getErrorCodeStatus(code, errorCodes) ?? 500;
+      // tRPC only knows the status of its own codes
+      const shapeData = errorShape?.data;
+      if (shapeData?.code === code) {
+        shapeData.httpStatus = codeStatus;
+      }
+      const statusCode = meta?.status ?? codeStatus;
       const headers = meta?.headers ?? {};
-      const body: OpenApiErrorResponse = {
-        ...errorShape, // Pass the error through
-        message: isInputValidationError
-          ? 'Input validation failed'
-          : (errorShape?.message ?? error.message ?? 'An error occurred'),
-        code: error.code,
-        issues: isInputValidationError ? (error.cause as ZodError).errors : undefined,
-      };
+      const dataSchema = getErrorDataSchema(procedure?.openapi.errorResponses, statusCode);
+      const message = isInputValidationError
+        ? 'Input validation failed'
+        : (errorShape?.message ?? error.message ?? 'An error occurred');
+      const issues = isInputValidationError ? (error.cause as ZodError).errors : undefined;
+      const errorData = dataSchema
+        ? { data: getErrorData(dataSchema, [error.cause, errorShape?.data]) }
+        : {};
+
+      const body: OpenApiErrorResponse | OpenApiProblemResponse =
+        errorFormat === 'problem'
+          ? {
+              type: 'about:blank',
+              title: STATUS_CODES[statusCode] ?? 'Unknown error',
+              status: statusCode,
+              detail: message,
+              instance: url.pathname,
+              code,
+              issues,
+              ...errorData,
+            }
+          : {
+              ...errorShape, // Pass the error through
+              message,
+              code,
+              issues,
+              ...errorData,
+            };
+
+      // a streamed response failed half way, the error can no longer be sent
+      if (res.headersSent) {
+        // subscriptions end with an `error` event and NDJSON streams with an `error` line instead
+        if (procedure?.type === 'subscription') {
+          res.end(serializeErrorEvent(body));
+        } else if (
+          getMediaType(procedure?.openapi.responseContentType) === 'application/x-ndjson'
+        ) {
+          res.end(serializeErrorLine(body));
+        } else {
+          // any other body cut short would look complete, e.g. a JSON array missing its items
+          res.destroy();
+        }
+        return;
+      }
+
+      if (errorFormat === 'problem') {
+        sendResponse(statusCode, headers, body, 'application/problem+json');
+        return;
+      }
+
       sendResponse(statusCode, headers, body);
     }
   };
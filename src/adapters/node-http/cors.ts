@@ -0,0 +1,91 @@
+import { type NodeHTTPResponse } from '@trpc/server/adapters/node-http';
+
+import { OpenApiCorsOptions } from '../../types';
+
+const toCorsOptions = (cors?: boolean | OpenApiCorsOptions): OpenApiCorsOptions | undefined => {
+  if (cors === true) {
+    return {};
+  }
+  return cors === false ? undefined : cors;
+};
+
+// procedure options are merged over the handler options, `false` on a procedure disables CORS
+export const resolveCorsOptions = (
+  handlerCors?: boolean | OpenApiCorsOptions,
+  procedureCors?: boolean | OpenApiCorsOptions,
+): OpenApiCorsOptions | undefined => {
+  if (procedureCors === undefined) {
+    return toCorsOptions(handlerCors);
+  }
+  if (procedureCors === false) {
+    return undefined;
+  }
+  return { ...toCorsOptions(handlerCors), ...toCorsOptions(procedureCors) };
+};
+
+const getAllowOrigin = (opts: OpenApiCorsOptions, origin: string): string | undefined => {
+  const { origin: allowedOrigin = '*', credentials } = opts;
+
+  if (allowedOrigin === '*') {
+    // browsers reject a wildcard origin on credentialed requests
+    return credentials ? origin : '*';
+  }
+  if (typeof allowedOrigin === 'boolean') {
+    return allowedOrigin ? origin : undefined;
+  }
+  if (typeof allowedOrigin === 'string') {
+    return allowedOrigin === origin ? origin : undefined;
+  }
+  if (Array.isArray(allowedOrigin)) {
+    return allowedOrigin.includes(origin) ? origin : undefined;
+  }
+  if (allowedOrigin instanceof RegExp) {
+    return allowedOrigin.test(origin) ? origin : undefined;
+  }
+  return allowedOrigin(origin) ? origin : undefined;
+};
+
+export const setCorsHeaders = (
+  res: NodeHTTPResponse,
+  opts: OpenApiCorsOptions,
+  origin: string,
+): boolean => {
+  const allowOrigin = getAllowOrigin(opts, origin);
+  if (!allowOrigin) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+  if (allowOrigin !== '*') {
+    res.setHeader('Vary', 'Origin');
+  }
+  if (opts.credentials) {
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+  }
+  if (opts.exposedHeaders?.length) {
+    res.setHeader('Access-Control-Expose-Headers', opts.exposedHeaders.join(', '));
+  }
+  return true;
+};
+
+export const setCorsPreflightHeaders = (
+  res: NodeHTTPResponse,
+  opts: OpenApiCorsOptions,
+  origin: string,
+  allowedMethods: string[],
+  requestHeaders: string | undefined,
+): boolean => {
+  if (!setCorsHeaders(res, opts, origin)) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Methods', (opts.methods ?? allowedMethods).join(', '));
+  const allowedHeaders = opts.allowedHeaders?.join(', ') ?? requestHeaders;
+  if (allowedHeaders) {
+    res.setHeader('Access-Control-Allow-Headers', allowedHeaders);
+  }
+  if (opts.maxAge !== undefined) {
+    res.setHeader('Access-Control-Max-Age', String(opts.maxAge));
+  }
+  return true;
+};
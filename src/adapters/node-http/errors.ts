@@ -1,6 +1,10 @@
 import { TRPCError } from '@trpc/server';
+import { TRPC_ERROR_CODE_KEY } from '@trpc/server/rpc';
+import { ZodTypeAny } from 'zod';
 
-export const TRPC_ERROR_CODE_HTTP_STATUS: Record<TRPCError['code'], number> = {
+import { OpenApiErrorCode, OpenApiMeta } from '../../types';
+
+export const TRPC_ERROR_CODE_HTTP_STATUS: Record<OpenApiErrorCode, number> = {
   PARSE_ERROR: 400,
   BAD_REQUEST: 400,
   NOT_FOUND: 404,
@@ -22,7 +26,7 @@ export const TRPC_ERROR_CODE_HTTP_STATUS: Record<TRPCError['code'], number> = {
   GATEWAY_TIMEOUT: 504,
 };
 
-export const HTTP_STATUS_TRPC_ERROR_CODE: Record<number, TRPCError['code']> = {
+export const HTTP_STATUS_TRPC_ERROR_CODE: Record<number, OpenApiErrorCode> = {
   400: 'BAD_REQUEST',
   404: 'NOT_FOUND',
   500: 'INTERNAL_SERVER_ERROR',
@@ -43,7 +47,7 @@ export const HTTP_STATUS_TRPC_ERROR_CODE: Record<number, TRPCError['code']> = {
   504: 'GATEWAY_TIMEOUT',
 };
 
-export const TRPC_ERROR_CODE_MESSAGE: Record<TRPCError['code'], string> = {
+export const TRPC_ERROR_CODE_MESSAGE: Record<OpenApiErrorCode, string> = {
   PARSE_ERROR: 'Parse error',
   BAD_REQUEST: 'Bad request',
   NOT_FOUND: 'Not found',
@@ -65,8 +69,78 @@ export const TRPC_ERROR_CODE_MESSAGE: Record<TRPCError['code'], string> = {
   UNSUPPORTED_MEDIA_TYPE: 'Unsupported media type',
 };
 
-export function getErrorFromUnknown(cause: unknown): TRPCError {
-  if (cause instanceof Error && cause.name === 'TRPCError') {
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+export interface OpenApiErrorCodeOptions {
+  status: number;
+  /**
+   * Describes the error in the OpenAPI document.
+   */
+  message?: string;
+  /**
+   * Error classes thrown by procedures that are sent with this code & status instead of `500`.
+   */
+  errors?: ErrorClass[];
+}
+
+/**
+ * Error codes keyed by code, added to the built-in tRPC codes or replacing their status.
+ */
+export type OpenApiErrorCodes = Partial<Record<OpenApiErrorCode, OpenApiErrorCodeOptions>>;
+
+export const getErrorCodeStatus = (
+  code: OpenApiErrorCode,
+  errorCodes: OpenApiErrorCodes = {},
+): number | undefined => errorCodes[code]?.status ?? TRPC_ERROR_CODE_HTTP_STATUS[code];
+
+// a status keeps the built-in code it is mapped to unless that code was given another status, or
+// else the first code added for it
+export const getStatusErrorCode = (
+  status: number,
+  errorCodes: OpenApiErrorCodes = {},
+): OpenApiErrorCode | undefined => {
+  const code = HTTP_STATUS_TRPC_ERROR_CODE[status];
+  if (code && getErrorCodeStatus(code, errorCodes) === status) {
+    return code;
+  }
+  return Object.keys(errorCodes).find((key) => errorCodes[key]?.status === status);
+};
+
+export const getErrorCodeMessage = (
+  code: OpenApiErrorCode,
+  errorCodes: OpenApiErrorCodes = {},
+): string => errorCodes[code]?.message ?? TRPC_ERROR_CODE_MESSAGE[code] ?? code;
+
+const getErrorClassCode = (cause: unknown, errorCodes: OpenApiErrorCodes) =>
+  Object.keys(errorCodes).find((code) =>
+    errorCodes[code]!.errors?.some((errorClass) => cause instanceof errorClass),
+  );
+
+export function getErrorFromUnknown(
+  cause: unknown,
+  errorCodes: OpenApiErrorCodes = {},
+): TRPCError {
+  const isTRPCError = cause instanceof Error && cause.name === 'TRPCError';
+
+  // procedures wrap any other error they throw in an `INTERNAL_SERVER_ERROR`
+  const thrown =
+    isTRPCError && (cause as TRPCError).code === 'INTERNAL_SERVER_ERROR'
+      ? (cause as TRPCError).cause
+      : cause;
+  const errorClassCode = getErrorClassCode(thrown, errorCodes);
+  if (errorClassCode) {
+    // messages of registered error classes are meant for clients
+    const error = new TRPCError({
+      message: (thrown as Error).message,
+      // registered codes are not known to tRPC
+      code: errorClassCode as TRPC_ERROR_CODE_KEY,
+      cause: thrown as Error,
+    });
+    error.stack = (thrown as Error).stack;
+    return error;
+  }
+
+  if (isTRPCError) {
     return cause as TRPCError;
   }
 
@@ -90,3 +164,22 @@ export function getErrorFromUnknown(cause: unknown): TRPCError {
 
   return error;
 }
+
+export const getErrorDataSchema = (
+  errorResponses: NonNullable<OpenApiMeta['openapi']>['errorResponses'],
+  status: number,
+): ZodTypeAny | undefined => {
+  const response = Array.isArray(errorResponses) ? undefined : errorResponses?.[status];
+  return typeof response === 'object' ? response.data : undefined;
+};
+
+// the first source matching the documented schema is sent, stripped of any undocumented keys
+export const getErrorData = (schema: ZodTypeAny, sources: unknown[]) => {
+  for (const source of sources) {
+    const result = schema.safeParse(source);
+    if (result.success) {
+      return result.data as unknown;
+    }
+  }
+  return undefined;
+};
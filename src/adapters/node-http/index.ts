@@ -1,4 +1,6 @@
 export * from './core';
 export * from './errors';
 export * from './input';
+export * from './matcher';
 export * from './procedures';
+export * from './response';
@@ -1,9 +1,49 @@
 import { TRPCError } from '@trpc/server';
 import parse from 'co-body';
+import { IncomingMessage } from 'http';
 import { NodeHTTPRequest } from '../../types';
+import {
+  OpenApiInputBinding,
+  getContentType,
+  getMediaType,
+  getRequestCookie,
+  getRequestHeader,
+} from '../../utils';
 
-export const getQuery = (req: NodeHTTPRequest, url: URL): Record<string, string | string[]> => {
-  const query: Record<string, string | string[]> = {};
+export type OpenApiQueryValue = string | string[] | { [key: string]: OpenApiQueryValue };
+
+const hasOwnKey = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// segments that would reach `Object.prototype` when set on a plain object
+const unsafeQueryKeys = ['__proto__', 'constructor', 'prototype'];
+
+// `filter[status]` becomes `['filter', 'status']`, keys without brackets are left as they are
+const getQueryKeyPath = (key: string): string[] | undefined => {
+  const match = /^([^[\]]+)((?:\[[^[\]]+\])+)$/.exec(key);
+  if (!match) {
+    return undefined;
+  }
+  return [match[1]!, ...match[2]!.slice(1, -1).split('][')];
+};
+
+const setDeepQueryValue = (
+  query: Record<string, OpenApiQueryValue>,
+  keyPath: string[],
+  value: OpenApiQueryValue,
+) => {
+  const [key, ...rest] = keyPath;
+  if (rest.length === 0) {
+    query[key!] = value;
+    return;
+  }
+  const nested = hasOwnKey(query, key!) ? query[key!] : undefined;
+  const target = typeof nested === 'object' && !Array.isArray(nested) ? nested : {};
+  query[key!] = target;
+  setDeepQueryValue(target, rest, value);
+};
+
+export const getQuery = (req: NodeHTTPRequest, url: URL): Record<string, OpenApiQueryValue> => {
+  const query: Record<string, OpenApiQueryValue> = {};
 
   if (!req.query) {
     const parsedQs: Record<string, string[]> = {};
@@ -22,53 +62,211 @@ export const getQuery = (req: NodeHTTPRequest, url: URL): Record<string, string
   Object.keys(reqQuery).forEach((key) => {
     const value = reqQuery[key];
     if (value) {
-      query[key] = Array.isArray(value) && value.length === 1 ? value[0]! : value;
+      const normalizedValue = Array.isArray(value) && value.length === 1 ? value[0]! : value;
+      // `deepObject` parameters, frameworks using `qs` have already nested these
+      const keyPath = getQueryKeyPath(key);
+      if ((keyPath ?? [key]).some((segment) => unsafeQueryKeys.includes(segment))) {
+        throw new TRPCError({
+          message: `Query parameter "${key}" is not allowed`,
+          code: 'BAD_REQUEST',
+        });
+      }
+      if (keyPath) {
+        setDeepQueryValue(query, keyPath, normalizedValue);
+      } else {
+        query[key] = normalizedValue;
+      }
     }
   });
 
   return query;
 };
 
-const BODY_100_KB = 100_000;
-export const getBody = async (req: NodeHTTPRequest, maxBodySize = BODY_100_KB): Promise<any> => {
-  if ('body' in req) {
-    if (req.body instanceof ReadableStream) {
-      return new Response(req.body as ReadableStream<Buffer | Uint8Array | string | null>).json();
+// keys read from headers & cookies replace any value sent in the query or body for them
+export const getBoundInput = (
+  req: NodeHTTPRequest,
+  inputBindings: Record<string, OpenApiInputBinding>,
+): Record<string, string | undefined> => {
+  const input: Record<string, string | undefined> = {};
+  for (const [key, binding] of Object.entries(inputBindings)) {
+    input[key] =
+      binding.in === 'header'
+        ? getRequestHeader(req, binding.name)
+        : getRequestCookie(req, binding.name);
+  }
+  return input;
+};
+
+/**
+ * Parses a request body of a given media type, receives the raw body as a `Request` or `Response`.
+ */
+export type OpenApiBodyParser = (
+  body: Pick<Request, 'headers' | 'arrayBuffer' | 'blob' | 'formData' | 'json' | 'text'>,
+) => Promise<unknown>;
+
+const toFormRecord = (entries: Iterable<[string, FormDataEntryValue]>) => {
+  const data: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+  for (const [key, value] of entries) {
+    const current = hasOwnKey(data, key) ? data[key] : undefined;
+    if (current === undefined) {
+      data[key] = value;
+    } else {
+      data[key] = Array.isArray(current) ? [...current, value] : [current, value];
+    }
+  }
+  return data;
+};
+
+export const jsonBodyParser: OpenApiBodyParser = (body) => body.json();
+
+export const urlEncodedBodyParser: OpenApiBodyParser = async (body) =>
+  toFormRecord(new URLSearchParams(await body.text()));
+
+export const multipartBodyParser: OpenApiBodyParser = async (body) =>
+  toFormRecord(await body.formData());
+
+export const textBodyParser: OpenApiBodyParser = (body) => body.text();
+
+export const defaultBodyParsers: Record<string, OpenApiBodyParser> = {
+  'application/json': jsonBodyParser,
+  'application/x-www-form-urlencoded': urlEncodedBodyParser,
+  'multipart/form-data': multipartBodyParser,
+  'text/plain': textBodyParser,
+};
+
+export const assertFileSizes = (data: unknown, maxFileSize: number) => {
+  if (typeof data !== 'object' || data === null) {
+    return;
+  }
+  for (const value of Object.values(data).flat()) {
+    if (value instanceof Blob && value.size > maxFileSize) {
+      throw new TRPCError({
+        message: 'Uploaded file too large',
+        code: 'PAYLOAD_TOO_LARGE',
+      });
     }
+  }
+};
+
+const toBuffer = (chunk: unknown) =>
+  Buffer.isBuffer(chunk)
+    ? chunk
+    : chunk instanceof Uint8Array
+      ? Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      : Buffer.from(chunk as string);
+
+// `ReadableStream` bodies are passed by the fetch & standalone adapters
+const readChunks = async function* (
+  body: NodeHTTPRequest | ReadableStream<unknown>,
+): AsyncGenerator<unknown> {
+  if (!(body instanceof ReadableStream)) {
+    yield* body;
+    return;
+  }
+  const reader = body.getReader();
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      yield result.value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+const readRawBody = async (
+  body: NodeHTTPRequest | ReadableStream<unknown>,
+  maxBodySize: number,
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of readChunks(body)) {
+    const buffer = toBuffer(chunk);
+    size += buffer.length;
+    if (size > maxBodySize) {
+      throw new TRPCError({
+        message: 'Request body too large',
+        code: 'PAYLOAD_TOO_LARGE',
+      });
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+// body parsers running before the handler, e.g. `express.json()`, set `req.body` to `{}` for media
+// types they skip and leave the request stream unread, which is then parsed here instead
+const isUnreadBody = (req: NodeHTTPRequest) =>
+  typeof req.body === 'object' &&
+  req.body !== null &&
+  Object.getPrototypeOf(req.body) === Object.prototype &&
+  Object.keys(req.body).length === 0 &&
+  (req as Partial<IncomingMessage>).readableEnded === false &&
+  !(req as { _body?: boolean })._body;
+
+const BODY_100_KB = 100_000;
+export const getBody = async (
+  req: NodeHTTPRequest,
+  maxBodySize = BODY_100_KB,
+  bodyParsers: Record<string, OpenApiBodyParser> = defaultBodyParsers,
+): Promise<any> => {
+  const contentType = getContentType(req);
+  const mediaType = getMediaType(contentType);
+  const bodyParser = mediaType ? bodyParsers[mediaType] : undefined;
+
+  if ('body' in req && !(req.body instanceof ReadableStream) && !isUnreadBody(req)) {
     return req.body;
   }
 
-  req.body = undefined;
+  const stream = req.body instanceof ReadableStream ? req.body : undefined;
+  if (!stream) {
+    req.body = undefined;
+  }
+
+  if (!bodyParser) {
+    return undefined;
+  }
+
+  try {
+    if (stream) {
+      const raw = await readRawBody(stream, maxBodySize);
+      return await bodyParser(new Response(raw, { headers: { 'content-type': contentType! } }));
+    }
 
-  const contentType = req.headers['content-type'];
-  if (contentType === 'application/json' || contentType === 'application/x-www-form-urlencoded') {
-    try {
+    // co-body keeps parsing nested keys of urlencoded bodies, e.g. `user[name]=Lily`
+    if (bodyParser === jsonBodyParser || bodyParser === urlEncodedBodyParser) {
       const { raw, parsed } = await parse(req, {
         limit: maxBodySize,
         strict: false,
         returnRawBody: true,
       });
       req.body = raw ? parsed : undefined;
-    } catch (cause) {
-      if (cause instanceof Error && cause.name === 'PayloadTooLargeError') {
-        throw new TRPCError({
-          message: 'Request body too large',
-          code: 'PAYLOAD_TOO_LARGE',
-          cause: cause,
-        });
-      }
-
-      let errorCause: Error | undefined = undefined;
-      if (cause instanceof Error) {
-        errorCause = cause;
-      }
+    } else {
+      const raw = await readRawBody(req, maxBodySize);
+      req.body = await bodyParser(new Response(raw, { headers: { 'content-type': contentType! } }));
+    }
+  } catch (cause) {
+    if (cause instanceof TRPCError) {
+      throw cause;
+    }
 
+    if (cause instanceof Error && cause.name === 'PayloadTooLargeError') {
       throw new TRPCError({
-        message: 'Failed to parse request body',
-        code: 'PARSE_ERROR',
-        cause: errorCause,
+        message: 'Request body too large',
+        code: 'PAYLOAD_TOO_LARGE',
+        cause: cause,
       });
     }
+
+    let errorCause: Error | undefined = undefined;
+    if (cause instanceof Error) {
+      errorCause = cause;
+    }
+
+    throw new TRPCError({
+      message: 'Failed to parse request body',
+      code: 'PARSE_ERROR',
+      cause: errorCause,
+    });
   }
 
   return req.body;
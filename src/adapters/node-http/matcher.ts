@@ -0,0 +1,199 @@
+import { getPathParameters } from '../../utils';
+
+type RouteSegmentKind = 'static' | 'pattern' | 'param';
+
+interface RouteEntry<T> {
+  route: string;
+  paramNames: string[];
+  value: T;
+}
+
+interface RouteNode<T> {
+  kind: RouteSegmentKind;
+  segment: string;
+  pattern?: RegExp;
+  staticChildren: Map<string, RouteNode<T>>;
+  patternChildren: RouteNode<T>[];
+  paramChild?: RouteNode<T>;
+  entries: Map<string, RouteEntry<T>>;
+}
+
+export interface RouteMatch<T> {
+  route: string;
+  value: T;
+  params: Record<string, string>;
+}
+
+export interface RouteMatchStep {
+  segment: string;
+  kind: RouteSegmentKind;
+  candidate: string;
+  matched: boolean;
+}
+
+export interface RouteMatchDiagnostics {
+  method: string;
+  path: string;
+  route?: string;
+  params?: Record<string, string>;
+  steps: RouteMatchStep[];
+}
+
+const createNode = <T>(kind: RouteSegmentKind, segment: string): RouteNode<T> => ({
+  kind,
+  segment,
+  staticChildren: new Map(),
+  patternChildren: [],
+  entries: new Map(),
+});
+
+const splitPath = (path: string) => (path === '/' ? [] : path.slice(1).split('/'));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `{name}` segments only ever capture positionally, the names live on the route entry so that
+// `/users/{id}` and `/users/{userId}` end up on the same node
+const getSegmentKey = (segment: string) => segment.replace(/\{(.+?)\}/g, '{}');
+
+const getSegmentKind = (segment: string): RouteSegmentKind => {
+  if (/^\{[^{}]+\}$/.test(segment)) {
+    return 'param';
+  }
+  return segment.includes('{') ? 'pattern' : 'static';
+};
+
+const getSegmentRegExp = (key: string) => {
+  const groupedExp = key.split('{}').map(escapeRegExp).join('([^/]+)');
+  return new RegExp(`^${groupedExp}$`, 'i');
+};
+
+// patterns with more literal characters are more specific, e.g. `{name}.json` beats `{name}.{ext}`
+const getPatternSpecificity = (key: string) => key.replace(/\{\}/g, '').length;
+
+/**
+ * A segment based radix tree used to look up routes in O(path length).
+ *
+ * Static segments are matched case-insensitively and always win over `{param}` segments, which
+ * makes the lookup independent of the order routes were added in.
+ */
+export const createRouteMatcher = <T>() => {
+  const root = createNode<T>('static', '');
+
+  const add = (method: string, route: string, value: T) => {
+    let node = root;
+    for (const segment of splitPath(route)) {
+      const kind = getSegmentKind(segment);
+      if (kind === 'static') {
+        const key = segment.toLowerCase();
+        let child = node.staticChildren.get(key);
+        if (!child) {
+          child = createNode(kind, segment);
+          node.staticChildren.set(key, child);
+        }
+        node = child;
+      } else if (kind === 'param') {
+        node.paramChild ??= createNode(kind, '{}');
+        node = node.paramChild;
+      } else {
+        const key = getSegmentKey(segment);
+        let child = node.patternChildren.find((patternChild) => patternChild.segment === key);
+        if (!child) {
+          child = { ...createNode<T>(kind, key), pattern: getSegmentRegExp(key) };
+          node.patternChildren.push(child);
+          node.patternChildren.sort(
+            (a, b) => getPatternSpecificity(b.segment) - getPatternSpecificity(a.segment),
+          );
+        }
+        node = child;
+      }
+    }
+
+    // first registered route wins, the same way the generator reports duplicates
+    if (!node.entries.has(method)) {
+      node.entries.set(method, { route, paramNames: getPathParameters(route), value });
+    }
+  };
+
+  const walk = (
+    node: RouteNode<T>,
+    segments: string[],
+    index: number,
+    captures: string[],
+    accept: (node: RouteNode<T>) => boolean,
+    steps?: RouteMatchStep[],
+  ): { node: RouteNode<T>; captures: string[] } | undefined => {
+    if (index === segments.length) {
+      return accept(node) ? { node, captures } : undefined;
+    }
+
+    const segment = segments[index]!;
+
+    const staticChild = node.staticChildren.get(segment.toLowerCase());
+    steps?.push({ segment, kind: 'static', candidate: segment, matched: !!staticChild });
+    if (staticChild) {
+      const result = walk(staticChild, segments, index + 1, captures, accept, steps);
+      if (result) {
+        return result;
+      }
+    }
+
+    for (const patternChild of node.patternChildren) {
+      const groups = patternChild.pattern!.exec(segment);
+      steps?.push({ segment, kind: 'pattern', candidate: patternChild.segment, matched: !!groups });
+      if (groups) {
+        const nextCaptures = [...captures, ...groups.slice(1)];
+        const result = walk(patternChild, segments, index + 1, nextCaptures, accept, steps);
+        if (result) {
+          return result;
+        }
+      }
+    }
+
+    if (node.paramChild) {
+      const matched = segment.length > 0;
+      steps?.push({ segment, kind: 'param', candidate: '{}', matched });
+      if (matched) {
+        const nextCaptures = [...captures, segment];
+        return walk(node.paramChild, segments, index + 1, nextCaptures, accept, steps);
+      }
+    }
+
+    return undefined;
+  };
+
+  const toMatch = (entry: RouteEntry<T>, captures: string[]): RouteMatch<T> => ({
+    route: entry.route,
+    value: entry.value,
+    params: Object.fromEntries(entry.paramNames.map((name, i) => [name, captures[i]!])),
+  });
+
+  const match = (method: string, path: string): RouteMatch<T> | undefined => {
+    const result = walk(root, splitPath(path), 0, [], (node) => node.entries.has(method));
+    if (!result) {
+      return undefined;
+    }
+    return toMatch(result.node.entries.get(method)!, result.captures);
+  };
+
+  const explain = (method: string, path: string): RouteMatchDiagnostics => {
+    const steps: RouteMatchStep[] = [];
+    const result = walk(root, splitPath(path), 0, [], (node) => node.entries.has(method), steps);
+    if (!result) {
+      return { method, path, steps };
+    }
+    const { route, params } = toMatch(result.node.entries.get(method)!, result.captures);
+    return { method, path, route, params, steps };
+  };
+
+  // walks every branch of the tree, collecting the methods of all routes the path could match
+  const allowedMethods = (path: string): string[] => {
+    const methods = new Set<string>();
+    walk(root, splitPath(path), 0, [], (node) => {
+      node.entries.forEach((_, method) => methods.add(method));
+      return false;
+    });
+    return Array.from(methods);
+  };
+
+  return { add, match, explain, allowedMethods };
+};
@@ -1,53 +1,47 @@
-import { OpenApiMethod, OpenApiProcedure, OpenApiRouter } from '../../types';
-import { getPathRegExp, normalizePath, forEachOpenApiProcedure } from '../../utils';
+import { OpenApiMeta, OpenApiMethod, OpenApiProcedure, OpenApiRouter } from '../../types';
+import { normalizePath, forEachOpenApiProcedure } from '../../utils';
+import { createRouteMatcher } from './matcher';
 
 export const createProcedureCache = (router: OpenApiRouter) => {
-  const procedureCache = new Map<
-    OpenApiMethod | 'HEAD',
-    Map<
-      RegExp,
-      {
-        type: 'query' | 'mutation';
-        path: string;
-        procedure: OpenApiProcedure;
-      }
-    >
-  >();
+  const matcher = createRouteMatcher<{
+    type: 'query' | 'mutation' | 'subscription';
+    path: string;
+    procedure: OpenApiProcedure;
+    openapi: NonNullable<OpenApiMeta['openapi']>;
+  }>();
 
   forEachOpenApiProcedure(
     router._def.procedures,
     ({ path: queryPath, procedure, meta: { openapi } }) => {
-      if (procedure._def.type === 'subscription') {
-        return;
-      }
       const { method } = openapi;
-      if (!procedureCache.has(method)) {
-        procedureCache.set(method, new Map());
-      }
       const path = normalizePath(openapi.path);
-      const pathRegExp = getPathRegExp(path);
-      procedureCache.get(method)?.set(pathRegExp, {
+      matcher.add(method, path, {
         type: procedure._def.type,
         path: queryPath,
         procedure,
+        openapi,
       });
     },
   );
 
-  return (method: OpenApiMethod | 'HEAD', path: string) => {
-    const procedureMethodCache = procedureCache.get(method);
-    if (!procedureMethodCache) {
+  const getProcedure = (method: OpenApiMethod | 'HEAD', path: string) => {
+    const match = matcher.match(method, path);
+    if (!match) {
       return undefined;
     }
 
-    const procedureRegExp = Array.from(procedureMethodCache.keys()).find((re) => re.test(path));
-    if (!procedureRegExp) {
-      return undefined;
-    }
-
-    const procedure = procedureMethodCache.get(procedureRegExp);
-    const pathInput = procedureRegExp.exec(path)?.groups ?? {};
-
-    return { procedure, pathInput };
+    return { procedure: match.value, pathInput: match.params };
   };
+
+  return Object.assign(getProcedure, {
+    /**
+     * Returns every segment the matcher tried for `method` & `path`, useful for debugging why a
+     * request did or did not resolve to a procedure.
+     */
+    explain: (method: OpenApiMethod | 'HEAD', path: string) => matcher.explain(method, path),
+    /**
+     * Returns the methods registered for any route matching `path`.
+     */
+    getAllowedMethods: (path: string) => matcher.allowedMethods(path) as OpenApiMethod[],
+  });
 };
@@ -0,0 +1,243 @@
+import { TRPCError } from '@trpc/server';
+import { type NodeHTTPResponse } from '@trpc/server/adapters/node-http';
+import { isObservable, observableToAsyncIterable } from '@trpc/server/observable';
+import { isTrackedEnvelope } from '@trpc/server/unstable-core-do-not-import';
+import { AnyZodObject, ZodRawShape } from 'zod';
+
+import { OpenApiCookieOptions, OpenApiResponseControl } from '../../types';
+
+type ResponseChunk = string | Uint8Array;
+
+export const isAsyncIterable = <T = ResponseChunk>(value: unknown): value is AsyncIterable<T> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+
+// also settles once the client is gone, a full buffer of a closed response never drains
+const waitForDrain = (res: NodeHTTPResponse, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const emitter = res as unknown as NodeJS.EventEmitter;
+    const done = () => {
+      emitter.off('drain', done);
+      emitter.off('close', done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    emitter.once('drain', done);
+    emitter.once('close', done);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+
+export const writeStream = async (
+  res: NodeHTTPResponse,
+  chunks: AsyncIterable<ResponseChunk>,
+  signal?: AbortSignal,
+) => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  // stops the source once the client is gone, e.g. to close a database cursor
+  const stop = () => {
+    iterator.return?.().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', stop, { once: true });
+  try {
+    while (!signal?.aborted) {
+      const result = await iterator.next();
+      if (result.done === true || signal?.aborted) {
+        break;
+      }
+      // respect backpressure of the underlying socket
+      if (!res.write(result.value) && 'once' in res) {
+        await waitForDrain(res, signal);
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+  }
+  res.end();
+};
+
+const readableStreamToAsyncIterable = async function* (stream: ReadableStream<ResponseChunk>) {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    await reader.cancel();
+  }
+};
+
+/**
+ * Sends a non-JSON body such as a `string`, `Buffer`, `Blob` or `ReadableStream` as it is.
+ */
+export const writeRawBody = async (res: NodeHTTPResponse, body: unknown, signal?: AbortSignal) => {
+  if (typeof body === 'string' || body instanceof Uint8Array) {
+    res.end(body);
+    return;
+  }
+  if (body instanceof Blob) {
+    res.end(new Uint8Array(await body.arrayBuffer()));
+    return;
+  }
+  if (body instanceof ReadableStream) {
+    await writeStream(
+      res,
+      readableStreamToAsyncIterable(body as ReadableStream<ResponseChunk>),
+      signal,
+    );
+    return;
+  }
+  if (isAsyncIterable(body)) {
+    await writeStream(res, body, signal);
+    return;
+  }
+  throw new TRPCError({
+    message: 'Response body must be a string, Buffer, Blob or ReadableStream',
+    code: 'INTERNAL_SERVER_ERROR',
+  });
+};
+
+const serializeEvents = async function* (events: AsyncIterable<unknown>) {
+  // sent right away, so that clients see the connection open before the first event
+  yield ': connected\n\n';
+  for await (const event of events) {
+    yield isTrackedEnvelope(event)
+      ? `id: ${event[0]}\ndata: ${JSON.stringify(event[1])}\n\n`
+      : `data: ${JSON.stringify(event)}\n\n`;
+  }
+};
+
+export const serializeErrorEvent = (body: unknown) =>
+  `event: error\ndata: ${JSON.stringify(body)}\n\n`;
+
+// the last line of an NDJSON stream that failed, items are never wrapped in an `error` member
+export const serializeErrorLine = (body: unknown) => `${JSON.stringify({ error: body })}\n`;
+
+/**
+ * Sends the async iterable or observable returned by a subscription as `text/event-stream`, items
+ * created with `tracked()` are sent with their id. Stops once `signal` is aborted.
+ */
+export const writeServerSentEvents = async (
+  res: NodeHTTPResponse,
+  events: unknown,
+  signal: AbortSignal,
+) => {
+  if (isObservable(events)) {
+    await writeStream(res, serializeEvents(observableToAsyncIterable(events, signal)), signal);
+    return;
+  }
+  if (isAsyncIterable(events)) {
+    await writeStream(res, serializeEvents(events), signal);
+    return;
+  }
+  throw new TRPCError({
+    message: 'Subscription must return an async iterable or an observable',
+    code: 'INTERNAL_SERVER_ERROR',
+  });
+};
+
+const unwrapTracked = (item: unknown) => (isTrackedEnvelope(item) ? item[1] : item);
+
+const serializeLines = async function* (items: AsyncIterable<unknown>) {
+  for await (const item of items) {
+    yield `${JSON.stringify(unwrapTracked(item))}\n`;
+  }
+};
+
+const serializeArray = async function* (items: AsyncIterable<unknown>) {
+  yield '[';
+  let first = true;
+  for await (const item of items) {
+    yield `${first ? '' : ','}${JSON.stringify(unwrapTracked(item))}`;
+    first = false;
+  }
+  yield ']';
+};
+
+/**
+ * Sends the items of an async iterable as they are yielded, one JSON value per line for
+ * `application/x-ndjson` and as a single JSON array otherwise. Stops once `signal` is aborted.
+ */
+export const writeJsonStream = async (
+  res: NodeHTTPResponse,
+  items: AsyncIterable<unknown>,
+  mediaType: string | undefined,
+  signal?: AbortSignal,
+) => {
+  const chunks =
+    mediaType === 'application/x-ndjson' ? serializeLines(items) : serializeArray(items);
+  await writeStream(res, chunks, signal);
+};
+
+const serializeCookie = (name: string, value: string, opts: OpenApiCookieOptions = {}) => {
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+  if (opts.domain) cookie += `; Domain=${opts.domain}`;
+  if (opts.path) cookie += `; Path=${opts.path}`;
+  if (opts.expires) cookie += `; Expires=${opts.expires.toUTCString()}`;
+  if (opts.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(opts.maxAge)}`;
+  if (opts.httpOnly) cookie += '; HttpOnly';
+  if (opts.secure) cookie += '; Secure';
+  if (opts.sameSite) cookie += `; SameSite=${opts.sameSite}`;
+  return cookie;
+};
+
+export const createResponseControl = (): OpenApiResponseControl => {
+  let status: number | undefined = undefined;
+  const headers: Record<string, string | string[]> = {};
+
+  return {
+    get status() {
+      return status;
+    },
+    get headers() {
+      return headers;
+    },
+    setStatus: (code) => {
+      status = code;
+    },
+    setHeader: (name, value) => {
+      headers[name] = value;
+    },
+    setCookie: (name, value, opts) => {
+      const cookies = headers['Set-Cookie'] ?? [];
+      headers['Set-Cookie'] = [
+        ...(Array.isArray(cookies) ? cookies : [cookies]),
+        serializeCookie(name, value, opts),
+      ];
+    },
+  };
+};
+
+// headers set by a procedure have to match `meta.openapi.responseHeaders` if it is declared, header
+// names are case-insensitive so they are matched to the declared names in any case
+export const validateResponseHeaders = (
+  control: OpenApiResponseControl,
+  responseHeaders: AnyZodObject | undefined,
+) => {
+  if (!responseHeaders || Object.keys(control.headers).length === 0) {
+    return;
+  }
+  const declaredNames = new Map(
+    Object.keys(responseHeaders.shape as ZodRawShape).map((name) => [name.toLowerCase(), name]),
+  );
+  const headers = Object.fromEntries(
+    Object.entries(control.headers).map(([name, value]) => [
+      declaredNames.get(name.toLowerCase()) ?? name,
+      value,
+    ]),
+  );
+  const result = responseHeaders.safeParse(headers);
+  if (!result.success) {
+    throw new TRPCError({
+      message: 'Response headers validation failed',
+      code: 'INTERNAL_SERVER_ERROR',
+      cause: result.error,
+    });
+  }
+};
@@ -0,0 +1,254 @@
+import { TRPCError } from '@trpc/server';
+import { ZodType, ZodTypeAny } from 'zod';
+import { type CreateSchemaOptions, createSchema } from 'zod-openapi';
+
+import { OpenApiMeta, OpenApiRouter } from '../types';
+import {
+  forEachOpenApiProcedure,
+  getAsyncIterableItem,
+  getInputBindings,
+  getInputOutputParsers,
+  getPathParameters,
+  instanceofZodType,
+  instanceofZodTypeLikeVoid,
+  instanceofZodTypeObject,
+  normalizePath,
+  unwrapZodType,
+} from '../utils';
+
+type AsyncApiSchemaObject = ReturnType<typeof createSchema>['schema'];
+
+interface AsyncApiReferenceObject {
+  $ref: string;
+}
+
+export interface AsyncApiServerObject {
+  host: string;
+  protocol: string;
+  pathname?: string;
+}
+
+export interface AsyncApiParameterObject {
+  description?: string;
+}
+
+export interface AsyncApiMessageObject {
+  name: string;
+  title?: string;
+  payload: AsyncApiSchemaObject;
+}
+
+export interface AsyncApiChannelObject {
+  address: string;
+  parameters?: Record<string, AsyncApiParameterObject>;
+  messages: Record<string, AsyncApiReferenceObject>;
+}
+
+export interface AsyncApiOperationObject {
+  action: 'send' | 'receive';
+  channel: AsyncApiReferenceObject;
+  messages: AsyncApiReferenceObject[];
+  summary?: string;
+  description?: string;
+  tags?: { name: string }[];
+  bindings?: {
+    http: { method: string; query?: AsyncApiSchemaObject; bindingVersion: string };
+  };
+}
+
+export interface AsyncAPIObject {
+  asyncapi: '3.0.0';
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+    tags?: { name: string }[];
+    externalDocs?: { url: string };
+  };
+  servers: Record<string, AsyncApiServerObject>;
+  defaultContentType: string;
+  channels: Record<string, AsyncApiChannelObject>;
+  operations: Record<string, AsyncApiOperationObject>;
+  components: {
+    messages: Record<string, AsyncApiMessageObject>;
+    schemas?: Record<string, AsyncApiSchemaObject>;
+  };
+}
+
+export interface GenerateAsyncApiDocumentOptions<TMeta = Record<string, unknown>> {
+  title: string;
+  description?: string;
+  version: string;
+  baseUrl: string;
+  docsUrl?: string;
+  tags?: string[];
+  /**
+   * Optional filter function to include/exclude subscriptions from the generated AsyncAPI document,
+   * works the same as the `filter` of `generateOpenApiDocument`.
+   */
+  filter?: (ctx: { metadata: { openapi: NonNullable<OpenApiMeta['openapi']> } & TMeta }) => boolean;
+}
+
+// AsyncAPI servers require a host & protocol, so a relative `baseUrl` such as `/api` cannot be used
+const getServerObject = (baseUrl: string): AsyncApiServerObject => {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch (cause) {
+    throw new TRPCError({
+      message: `AsyncAPI documents require an absolute baseUrl, received "${baseUrl}"`,
+      code: 'INTERNAL_SERVER_ERROR',
+      cause,
+    });
+  }
+  return {
+    host: url.host,
+    protocol: url.protocol.slice(0, -1),
+    ...(url.pathname !== '/' ? { pathname: url.pathname } : {}),
+  };
+};
+
+/**
+ * Generates an AsyncAPI 3.0 document of the subscriptions with `meta.openapi`, which are served as
+ * server-sent events. Each subscription is a channel at its path with one message, the items it
+ * yields, that clients receive.
+ */
+export const generateAsyncApiDocument = <TMeta = Record<string, unknown>>(
+  appRouter: OpenApiRouter,
+  opts: GenerateAsyncApiDocumentOptions<TMeta>,
+): AsyncAPIObject => {
+  const channels: AsyncAPIObject['channels'] = {};
+  const operations: AsyncAPIObject['operations'] = {};
+  const messages: AsyncAPIObject['components']['messages'] = {};
+  const schemas: Record<string, AsyncApiSchemaObject> = {};
+
+  // schemas with `.openapi({ ref })` are collected in `components.schemas`, as in OpenAPI documents
+  const toSchemaObject = (schema: ZodTypeAny, schemaType: CreateSchemaOptions['schemaType']) => {
+    const result = createSchema(schema as ZodType, {
+      schemaType,
+      openapi: '3.1.0',
+      componentRefPath: '#/components/schemas/',
+    });
+    Object.assign(schemas, result.components);
+    return result.schema;
+  };
+
+  forEachOpenApiProcedure<TMeta>(
+    appRouter._def.procedures,
+    ({ path: procedurePath, type, procedure, meta }) => {
+      if (type !== 'subscription') {
+        return;
+      }
+      if (typeof opts.filter === 'function' && !opts.filter({ metadata: meta })) {
+        return;
+      }
+
+      try {
+        const { method, summary, description, tags } = meta.openapi;
+        if (method !== 'GET') {
+          throw new TRPCError({
+            message: 'Subscriptions must use the GET method',
+            code: 'INTERNAL_SERVER_ERROR',
+          });
+        }
+
+        const { inputParser, outputParser } = getInputOutputParsers(procedure);
+        if (!instanceofZodType(inputParser)) {
+          throw new TRPCError({
+            message: 'Input parser expects a Zod validator',
+            code: 'INTERNAL_SERVER_ERROR',
+          });
+        }
+        if (!instanceofZodType(outputParser)) {
+          throw new TRPCError({
+            message: 'Output parser expects a Zod validator',
+            code: 'INTERNAL_SERVER_ERROR',
+          });
+        }
+
+        const address = normalizePath(meta.openapi.path);
+        const pathParameters = getPathParameters(address);
+        const inputSchema = unwrapZodType(inputParser, true);
+
+        let parameters: AsyncApiChannelObject['parameters'];
+        let query: AsyncApiSchemaObject | undefined;
+        if (!(pathParameters.length === 0 && instanceofZodTypeLikeVoid(inputSchema))) {
+          if (!instanceofZodTypeObject(inputSchema)) {
+            throw new TRPCError({
+              message: 'Input parser must be a ZodObject',
+              code: 'INTERNAL_SERVER_ERROR',
+            });
+          }
+
+          const shape = inputSchema.shape;
+          if (pathParameters.length > 0) {
+            parameters = Object.fromEntries(
+              pathParameters.map((name) => {
+                const parameterDescription = shape[name]?.description;
+                return [name, parameterDescription ? { description: parameterDescription } : {}];
+              }),
+            );
+          }
+
+          // keys read from headers & cookies are not part of the query, like path parameters
+          const excludedKeys = [...pathParameters, ...Object.keys(getInputBindings(meta.openapi))];
+          const queryKeys = Object.keys(shape).filter((key) => !excludedKeys.includes(key));
+          if (queryKeys.length > 0) {
+            query = toSchemaObject(
+              inputSchema.pick(Object.fromEntries(queryKeys.map((key) => [key, true]))),
+              'input',
+            );
+          }
+        }
+
+        const name = procedurePath.replace(/\./g, '-');
+        messages[name] = {
+          name,
+          ...(summary ? { title: summary } : {}),
+          payload: toSchemaObject(getAsyncIterableItem(outputParser) ?? outputParser, 'output'),
+        };
+        channels[name] = {
+          address,
+          ...(parameters ? { parameters } : {}),
+          messages: { [name]: { $ref: `#/components/messages/${name}` } },
+        };
+        operations[name] = {
+          action: 'receive',
+          channel: { $ref: `#/channels/${name}` },
+          messages: [{ $ref: `#/channels/${name}/messages/${name}` }],
+          summary,
+          description,
+          tags: tags?.map((tag) => ({ name: tag })),
+          bindings: {
+            http: { method, ...(query ? { query } : {}), bindingVersion: '0.3.0' },
+          },
+        };
+      } catch (error: unknown) {
+        if (error instanceof TRPCError) {
+          error.message = `[${type}.${procedurePath}] - ${error.message}`;
+        }
+        throw error;
+      }
+    },
+  );
+
+  return {
+    asyncapi: '3.0.0',
+    info: {
+      title: opts.title,
+      version: opts.version,
+      description: opts.description,
+      tags: opts.tags?.map((tag) => ({ name: tag })),
+      externalDocs: opts.docsUrl ? { url: opts.docsUrl } : undefined,
+    },
+    servers: { default: getServerObject(opts.baseUrl) },
+    // the `data` of each event is JSON
+    defaultContentType: 'application/json',
+    channels,
+    operations,
+    components: {
+      messages,
+      ...(Object.keys(schemas).length > 0 ? { schemas } : {}),
+    },
+  };
+};
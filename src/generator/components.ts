@@ -0,0 +1,220 @@
+import { TRPCError } from '@trpc/server';
+import { ZodTypeAny, z } from 'zod';
+
+import { OpenApiMeta, type OpenAPIObject, OpenApiRouter } from '../types';
+import {
+  forEachOpenApiProcedure,
+  getAsyncIterableItem,
+  getInputOutputParsers,
+  getZodOpenApiMetadata,
+  instanceofZodType,
+  instanceofZodTypeKind,
+  unwrapZodType,
+} from '../utils';
+import { type OpenApiComponentsObject, type OpenApiSchemaRefsOptions } from './index';
+
+interface SchemaUsage {
+  count: number;
+  procedurePath: string;
+  path: string[];
+}
+
+// only compound schemas are worth a component, a shared `z.string()` stays inlined
+const componentTypeKinds = [
+  z.ZodFirstPartyTypeKind.ZodObject,
+  z.ZodFirstPartyTypeKind.ZodUnion,
+  z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion,
+  z.ZodFirstPartyTypeKind.ZodIntersection,
+  z.ZodFirstPartyTypeKind.ZodRecord,
+  z.ZodFirstPartyTypeKind.ZodEnum,
+  z.ZodFirstPartyTypeKind.ZodNativeEnum,
+];
+
+// `z.lazy()` is not walked, so recursive schemas end here
+const getChildSchemas = (schema: ZodTypeAny): [string | undefined, ZodTypeAny][] => {
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodObject)) {
+    return Object.entries(schema.shape);
+  }
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodArray)) {
+    return [['Item', schema.element]];
+  }
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodRecord)) {
+    return [['Value', schema.valueSchema]];
+  }
+  if (
+    instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodUnion) ||
+    instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion)
+  ) {
+    return (schema.options as ZodTypeAny[]).map((option, index) => [`Option${index + 1}`, option]);
+  }
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodIntersection)) {
+    return [
+      [undefined, schema._def.left],
+      [undefined, schema._def.right],
+    ];
+  }
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodTuple)) {
+    return schema.items.map((item: ZodTypeAny, index: number) => [`Item${index + 1}`, item]);
+  }
+  if (
+    instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodOptional) ||
+    instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodNullable) ||
+    instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodBranded)
+  ) {
+    return [[undefined, schema.unwrap()]];
+  }
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodDefault)) {
+    return [[undefined, schema.removeDefault()]];
+  }
+  if (instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodEffects)) {
+    return [[undefined, schema._def.schema]];
+  }
+  return [];
+};
+
+const collectSchemaUsages = (
+  schema: ZodTypeAny,
+  procedurePath: string,
+  path: string[],
+  usages: Map<ZodTypeAny, SchemaUsage>,
+) => {
+  const usage = usages.get(schema);
+  if (usage) {
+    usage.count++;
+  } else {
+    usages.set(schema, { count: 1, procedurePath, path });
+  }
+
+  for (const [key, childSchema] of getChildSchemas(schema)) {
+    const childPath = key ? [...path, key] : path;
+    collectSchemaUsages(childSchema, procedurePath, childPath, usages);
+  }
+};
+
+const toPascalCase = (value: string) =>
+  value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`)
+    .join('');
+
+/**
+ * Finds the schemas to register in `components.schemas`, zod-openapi then references every use of
+ * a registered schema instance with `$ref`.
+ */
+export const getSchemaComponents = <TMeta = Record<string, unknown>>(
+  appRouter: OpenApiRouter,
+  opts: OpenApiSchemaRefsOptions,
+  userSchemas: OpenApiComponentsObject['schemas'] = {},
+  filter?: (ctx: {
+    metadata: {
+      openapi: NonNullable<OpenApiMeta['openapi']>;
+    } & TMeta;
+  }) => boolean,
+): NonNullable<OpenApiComponentsObject['schemas']> => {
+  const usages = new Map<ZodTypeAny, SchemaUsage>();
+
+  forEachOpenApiProcedure<TMeta>(appRouter._def.procedures, ({ path, procedure, meta }) => {
+    if (typeof filter === 'function' && !filter({ metadata: meta })) {
+      return;
+    }
+    const { inputParser, outputParser } = getInputOutputParsers(procedure);
+    if (instanceofZodType(inputParser)) {
+      const inputSchema = unwrapZodType(inputParser, true);
+      collectSchemaUsages(inputSchema, path, ['Input'], usages);
+    }
+    // streamed outputs are documented with their items
+    const outputSchema = getAsyncIterableItem(outputParser) ?? outputParser;
+    if (instanceofZodType(outputSchema)) {
+      collectSchemaUsages(outputSchema, path, ['Output'], usages);
+    }
+  });
+
+  const refs = new Map<string, ZodTypeAny>();
+  usages.forEach((_, schema) => {
+    const ref = getZodOpenApiMetadata(schema)?.ref;
+    if (ref) {
+      refs.set(ref, schema);
+    }
+  });
+
+  const schemas: NonNullable<OpenApiComponentsObject['schemas']> = { ...userSchemas };
+  usages.forEach(({ count, procedurePath, path }, schema) => {
+    if (
+      !componentTypeKinds.some((kind) => instanceofZodTypeKind(schema, kind)) ||
+      getZodOpenApiMetadata(schema)?.ref
+    ) {
+      return;
+    }
+    const name =
+      opts.getName?.(schema, { procedurePath, path }) ??
+      (opts.dedupe && count > 1 ? toPascalCase([procedurePath, ...path].join('.')) : undefined);
+    if (!name) {
+      return;
+    }
+    const registeredSchema = schemas[name];
+    if ((registeredSchema !== undefined && registeredSchema !== schema) || refs.has(name)) {
+      throw new TRPCError({
+        message: `Schema name "${name}" is used by more than one schema`,
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    }
+    schemas[name] = schema;
+  });
+
+  return schemas;
+};
+
+export const getComponentRef = (
+  components: OpenApiComponentsObject | undefined,
+  type: keyof OpenApiComponentsObject,
+  name: string,
+) => {
+  const ref = `#/components/${type}/${name}`;
+  if (components && !components[type]?.[name]) {
+    throw new TRPCError({
+      message: `Unresolved reference "${ref}"`,
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+  return { $ref: ref };
+};
+
+const resolveRef = (document: OpenAPIObject, ref: string) =>
+  ref
+    .slice(2)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (value, segment) =>
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[segment]
+          : undefined,
+      document,
+    );
+
+/**
+ * Reports any `$ref` of the document that does not resolve, e.g. in the `paths` passed to
+ * `generateOpenApiDocument` or between components.
+ */
+export const assertRefsResolve = (document: OpenAPIObject) => {
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, child] of Object.entries(value)) {
+        if (key === '$ref' && typeof child === 'string' && child.startsWith('#/')) {
+          if (resolveRef(document, child) === undefined) {
+            throw new TRPCError({
+              message: `Unresolved reference "${child}"`,
+              code: 'INTERNAL_SERVER_ERROR',
+            });
+          }
+        } else {
+          visit(child);
+        }
+      }
+    }
+  };
+  visit(document);
+};
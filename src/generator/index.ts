@@ -1,12 +1,50 @@
-import { ZodOpenApiObject, ZodOpenApiPathsObject, createDocument } from 'zod-openapi';
+import { AnyZodObject, ZodTypeAny, z } from 'zod';
+import {
+  ZodOpenApiComponentsObject,
+  ZodOpenApiObject,
+  ZodOpenApiPathsObject,
+  createDocument,
+} from 'zod-openapi';
 
+import { type OpenApiErrorCodes } from '../adapters';
 import {
+  OpenApiErrorFormat,
   OpenApiMeta,
   type OpenAPIObject,
   OpenApiRouter,
+  OpenApiWebhookObject,
   type SecuritySchemeObject,
 } from '../types';
-import { getOpenApiPathsObject, mergePaths } from './paths';
+import { assertRefsResolve, getSchemaComponents } from './components';
+import { getOpenApiPathsObject, getOpenApiWebhooksObject, mergePaths } from './paths';
+
+export {
+  type AsyncAPIObject,
+  type GenerateAsyncApiDocumentOptions,
+  generateAsyncApiDocument,
+} from './asyncapi';
+
+export type OpenApiComponentsObject = Pick<
+  ZodOpenApiComponentsObject,
+  'schemas' | 'parameters' | 'responses' | 'examples' | 'headers'
+>;
+
+export interface OpenApiSchemaRefsOptions {
+  /**
+   * Registers every compound schema used more than once, named after the first procedure using it
+   * unless `getName` names it, e.g. `UsersGetByIdOutputAuthor`.
+   * @default false
+   */
+  dedupe?: boolean;
+  /**
+   * Names a schema to register in `components.schemas`, return `undefined` to leave it inlined.
+   * `path` describes where the schema was first found, e.g. `['Output', 'author']`.
+   */
+  getName?: (
+    schema: ZodTypeAny,
+    ctx: { procedurePath: string; path: string[] },
+  ) => string | undefined;
+}
 
 export interface GenerateOpenApiDocumentOptions<TMeta = Record<string, unknown>> {
   title: string;
@@ -17,7 +55,39 @@ export interface GenerateOpenApiDocumentOptions<TMeta = Record<string, unknown>>
   docsUrl?: string;
   tags?: string[];
   securitySchemes?: Record<string, SecuritySchemeObject>;
+  /**
+   * Reusable components, operations refer to them by name with `meta.openapi.refs`. Zod schemas
+   * registered here are referenced with `$ref` wherever the same schema instance is used.
+   */
+  components?: OpenApiComponentsObject;
   paths?: ZodOpenApiPathsObject;
+  /**
+   * Outgoing requests the API sends, keyed by webhook name. Only supported with an
+   * `openApiVersion` of 3.1.x.
+   */
+  webhooks?: Record<string, OpenApiWebhookObject>;
+  /**
+   * Error codes added to the tRPC codes, or replacing their status. `errorResponses` of their
+   * status are documented with their code & message, has to match the `errorCodes` of the handler.
+   */
+  errorCodes?: OpenApiErrorCodes;
+  /**
+   * Documents error responses as `application/problem+json` problem details, has to match the
+   * `errorFormat` of the handler.
+   * @default 'default'
+   */
+  errorFormat?: OpenApiErrorFormat;
+  /**
+   * Schema of the router `errorFormatter` output. Its fields are documented on every error body
+   * next to `message`, `code` & `issues`, use `defaultErrorShape` for the tRPC default formatter.
+   * Not used with the `problem` error format.
+   */
+  errorShape?: AnyZodObject;
+  /**
+   * Registers shared schemas in `components.schemas` and references them with `$ref`. Schemas with
+   * `.openapi({ ref })` are always registered.
+   */
+  schemaRefs?: OpenApiSchemaRefsOptions;
   /**
    * Optional filter function to include/exclude procedures from the generated OpenAPI document.
    *
@@ -30,18 +100,34 @@ export interface GenerateOpenApiDocumentOptions<TMeta = Record<string, unknown>>
   filter?: (ctx: { metadata: { openapi: NonNullable<OpenApiMeta['openapi']> } & TMeta }) => boolean;
 }
 
+/**
+ * Schema of the error shape of the tRPC default `errorFormatter`.
+ */
+export const defaultErrorShape = z.object({
+  data: z.object({
+    code: z.string(),
+    httpStatus: z.number().int(),
+    path: z.string().optional(),
+    stack: z.string().optional(),
+  }),
+});
+
+export const defaultSecuritySchemes: Record<string, SecuritySchemeObject> = {
+  Authorization: {
+    type: 'http',
+    scheme: 'bearer',
+  },
+};
+
 export const generateOpenApiDocument = <TMeta = Record<string, unknown>>(
   appRouter: OpenApiRouter,
   opts: GenerateOpenApiDocumentOptions<TMeta>,
 ): OpenAPIObject => {
-  const securitySchemes = opts.securitySchemes ?? {
-    Authorization: {
-      type: 'http',
-      scheme: 'bearer',
-    },
-  };
-  return createDocument({
-    openapi: opts.openApiVersion ?? '3.0.3',
+  const securitySchemes = opts.securitySchemes ?? defaultSecuritySchemes;
+  const components = opts.components ?? {};
+  const openApiVersion = opts.openApiVersion ?? '3.0.3';
+  const document = createDocument({
+    openapi: openApiVersion,
     info: {
       title: opts.title,
       description: opts.description,
@@ -53,13 +139,35 @@ export const generateOpenApiDocument = <TMeta = Record<string, unknown>>(
       },
     ],
     paths: mergePaths(
-      getOpenApiPathsObject(appRouter, Object.keys(securitySchemes), opts.filter),
+      getOpenApiPathsObject(
+        appRouter,
+        Object.keys(securitySchemes),
+        opts.filter,
+        components,
+        opts.errorFormat,
+        opts.errorShape,
+        opts.errorCodes,
+      ),
       opts.paths,
     ),
+    ...(opts.webhooks ? { webhooks: getOpenApiWebhooksObject(opts.webhooks, openApiVersion) } : {}),
     components: {
+      ...components,
       securitySchemes,
+      ...(opts.schemaRefs
+        ? {
+            schemas: getSchemaComponents(
+              appRouter,
+              opts.schemaRefs,
+              components.schemas,
+              opts.filter,
+            ),
+          }
+        : {}),
     },
     tags: opts.tags?.map((tag) => ({ name: tag })),
     externalDocs: opts.docsUrl ? { url: opts.docsUrl } : undefined,
   });
+  assertRefsResolve(document);
+  return document;
 };
@@ -1,13 +1,16 @@
 import { TRPCError } from '@trpc/server';
-import { z } from 'zod';
+import { AnyZodObject, z } from 'zod';
 import {
+  ZodOpenApiContentObject,
   ZodOpenApiParameters,
+  ZodOpenApiPathItemObject,
   ZodOpenApiPathsObject,
   ZodOpenApiRequestBodyObject,
   extendZodWithOpenApi,
 } from 'zod-openapi';
 
-import { OpenApiMeta, OpenApiRouter } from '../types';
+import { type OpenApiErrorCodes } from '../adapters';
+import { OpenApiErrorFormat, OpenApiMeta, OpenApiRouter, OpenApiWebhookObject } from '../types';
 import {
   acceptsRequestBody,
   getPathParameters,
@@ -15,11 +18,24 @@ import {
   forEachOpenApiProcedure,
   getInputOutputParsers,
   instanceofZodType,
+  getContentTypes,
+  getInputBindings,
+  isProtectedProcedure,
+  getMediaType,
+  instanceofZodTypeLikeString,
   instanceofZodTypeLikeVoid,
   instanceofZodTypeObject,
   unwrapZodType,
 } from '../utils';
-import { getParameterObjects, getRequestBodyObject, getResponsesObject, hasInputs } from './schema';
+import { getComponentRef } from './components';
+import { type OpenApiComponentsObject } from './index';
+import {
+  extendErrorResponses,
+  getParameterObjects,
+  getRequestBodyObject,
+  getResponsesObject,
+  hasInputs,
+} from './schema';
 
 extendZodWithOpenApi(z);
 
@@ -31,18 +47,34 @@ export enum HttpMethods {
   DELETE = 'delete',
 }
 
+const getOperationId = (procedurePath: string) => procedurePath.replace(/\./g, '-');
+
 export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
   appRouter: OpenApiRouter,
-  securitySchemeNames: string[],
+  // `undefined` when the security schemes are not known, requirements are then not checked
+  securitySchemeNames: string[] | undefined,
   filter?: (ctx: {
     metadata: {
       openapi: NonNullable<OpenApiMeta['openapi']>;
     } & TMeta;
   }) => boolean,
+  // `undefined` when the components are not known, references to them are then not checked
+  components?: OpenApiComponentsObject,
+  errorFormat: OpenApiErrorFormat = 'default',
+  errorShape?: AnyZodObject,
+  errorCodes?: OpenApiErrorCodes,
 ): ZodOpenApiPathsObject => {
   const pathsObject: ZodOpenApiPathsObject = {};
   const procedures = Object.assign({}, appRouter._def.procedures);
 
+  // links refer to procedures by their tRPC path, which have to be part of the document
+  const operationIds = new Map<string, string>();
+  forEachOpenApiProcedure<TMeta>(procedures, ({ path: procedurePath, meta }) => {
+    if (typeof filter !== 'function' || filter({ metadata: meta })) {
+      operationIds.set(procedurePath, getOperationId(procedurePath));
+    }
+  });
+
   forEachOpenApiProcedure<TMeta>(procedures, ({ path: procedurePath, type, procedure, meta }) => {
     if (typeof filter === 'function' && !filter({ metadata: meta })) {
       return;
@@ -51,13 +83,6 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
     const procedureName = `${type}.${procedurePath}`;
 
     try {
-      if (type === 'subscription') {
-        throw new TRPCError({
-          message: 'Subscriptions are not supported by OpenAPI v3',
-          code: 'INTERNAL_SERVER_ERROR',
-        });
-      }
-
       const { openapi } = meta;
       const {
         method,
@@ -68,6 +93,7 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
         responseHeaders,
         successDescription,
         errorResponses,
+        successStatus,
         protect = true,
       } = meta.openapi;
 
@@ -82,6 +108,14 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
         });
       }
 
+      // subscriptions are served as server-sent events, which `EventSource` only requests with GET
+      if (type === 'subscription' && method !== 'GET') {
+        throw new TRPCError({
+          message: 'Subscriptions must use the GET method',
+          code: 'INTERNAL_SERVER_ERROR',
+        });
+      }
+
       if (pathsObject[path]?.[httpMethod]) {
         throw new TRPCError({
           message: `Duplicate procedure defined for route ${method} ${path}`,
@@ -89,7 +123,28 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
         });
       }
 
-      const contentTypes = openapi.contentTypes ?? ['application/json'];
+      const { inputParser, outputParser } = getInputOutputParsers(procedure);
+
+      for (const requirement of openapi.security ?? []) {
+        for (const name of Object.keys(requirement)) {
+          if (securitySchemeNames && !securitySchemeNames.includes(name)) {
+            throw new TRPCError({
+              message: `Security scheme "${name}" is not defined`,
+              code: 'INTERNAL_SERVER_ERROR',
+            });
+          }
+        }
+      }
+
+      if (successStatus !== undefined && (successStatus < 200 || successStatus > 299)) {
+        throw new TRPCError({
+          message: 'Success status must be a 2xx status code',
+          code: 'INTERNAL_SERVER_ERROR',
+        });
+      }
+
+      const contentTypes = getContentTypes(openapi, inputParser);
+      const inputBindings = getInputBindings(openapi);
       if (contentTypes.length === 0) {
         throw new TRPCError({
           message: 'At least one content type must be specified',
@@ -97,8 +152,6 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
         });
       }
 
-      const { inputParser, outputParser } = getInputOutputParsers(procedure);
-
       if (!instanceofZodType(inputParser)) {
         throw new TRPCError({
           message: 'Input parser expects a Zod validator',
@@ -113,16 +166,34 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
       }
       const isInputRequired = !inputParser.isOptional();
       const o = inputParser?._def.zodOpenApi?.openapi;
-      const inputSchema = unwrapZodType(inputParser, true).openapi({
-        ...(o?.title ? { title: o?.title } : {}),
-        ...(o?.description ? { description: o?.description } : {}),
-      });
+      const unwrappedInputSchema = unwrapZodType(inputParser, true);
+      // an unwrapped input keeps its identity, so that it can be referenced as a component
+      const inputSchema =
+        unwrappedInputSchema === inputParser
+          ? unwrappedInputSchema
+          : unwrappedInputSchema.openapi({
+              ...(o?.title ? { title: o?.title } : {}),
+              ...(o?.description ? { description: o?.description } : {}),
+            });
 
       const requestData: {
         requestBody?: ZodOpenApiRequestBodyObject;
         requestParams?: ZodOpenApiParameters;
       } = {};
-      if (!(pathParameters.length === 0 && instanceofZodTypeLikeVoid(inputSchema))) {
+      const isTextInput =
+        acceptsRequestBody(method) &&
+        pathParameters.length === 0 &&
+        instanceofZodTypeLikeString(inputSchema) &&
+        contentTypes.every((contentType) => getMediaType(contentType) === 'text/plain');
+
+      if (isTextInput) {
+        requestData.requestBody = {
+          required: isInputRequired,
+          content: Object.fromEntries(
+            contentTypes.map((contentType) => [contentType, { schema: inputSchema }]),
+          ),
+        };
+      } else if (!(pathParameters.length === 0 && instanceofZodTypeLikeVoid(inputSchema))) {
         if (!instanceofZodTypeObject(inputSchema)) {
           throw new TRPCError({
             message: 'Input parser must be a ZodObject',
@@ -131,10 +202,11 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
         }
 
         if (acceptsRequestBody(method)) {
+          // keys read from headers & cookies are left out of the body like path parameters
           requestData.requestBody = getRequestBodyObject(
             inputSchema,
             isInputRequired,
-            pathParameters,
+            [...pathParameters, ...Object.keys(inputBindings)],
             contentTypes,
           );
           requestData.requestParams =
@@ -144,6 +216,7 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
               pathParameters,
               requestHeaders,
               'path',
+              inputBindings,
             ) ?? {};
         } else {
           requestData.requestParams =
@@ -153,6 +226,7 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
               pathParameters,
               requestHeaders,
               'all',
+              inputBindings,
             ) ?? {};
         }
       }
@@ -161,24 +235,85 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
         outputParser,
         httpMethod,
         responseHeaders,
-        protect,
+        isProtectedProcedure(openapi),
         hasInputs(inputParser),
         successDescription,
         errorResponses,
+        type === 'subscription' ? 'text/event-stream' : openapi.responseContentType,
+        successStatus,
+        errorFormat,
+        errorCodes,
       );
+      if (errorShape && errorFormat === 'default') {
+        extendErrorResponses(responses, errorShape);
+      }
+
+      const { refs = {} } = openapi;
+      if (refs.requestExamples && requestData.requestBody) {
+        setExampleRefs(components, requestData.requestBody.content, refs.requestExamples);
+      }
+      const successResponse = responses[`${successStatus ?? 200}` as `2${string}`];
+      if (refs.responseExamples && successResponse && 'content' in successResponse) {
+        setExampleRefs(components, successResponse.content ?? {}, refs.responseExamples);
+      }
+      for (const [status, name] of Object.entries(refs.responses ?? {})) {
+        responses[status as `${1 | 2 | 3 | 4 | 5}${string}`] = getComponentRef(
+          components,
+          'responses',
+          name,
+        );
+      }
+      const successResponseObject = responses[`${successStatus ?? 200}` as `2${string}`];
+      if (openapi.links && successResponseObject) {
+        // a referenced response is shared, the links of one operation cannot be added to it
+        if ('$ref' in successResponseObject) {
+          throw new TRPCError({
+            message: 'Links cannot be added to a success response from `refs.responses`',
+            code: 'INTERNAL_SERVER_ERROR',
+          });
+        }
+        successResponseObject.links = Object.fromEntries(
+          Object.entries(openapi.links).map(([name, { procedure: linkedPath, ...link }]) => {
+            const operationId = operationIds.get(linkedPath);
+            if (!operationId) {
+              throw new TRPCError({
+                message: `Link "${name}" references unknown procedure "${linkedPath}"`,
+                code: 'INTERNAL_SERVER_ERROR',
+              });
+            }
+            return [name, { operationId, ...link }];
+          }),
+        );
+      }
+      const callbacks =
+        openapi.callbacks &&
+        Object.fromEntries(
+          Object.entries(openapi.callbacks).map(([name, { url, ...callback }]) => [
+            name,
+            { [url]: getWebhookPathItem(callback) },
+          ]),
+        );
 
-      const security = protect ? securitySchemeNames.map((name) => ({ [name]: [] })) : undefined;
+      const parameters = refs.parameters?.map((name) =>
+        getComponentRef(components, 'parameters', name),
+      );
+
+      const security =
+        openapi.security ??
+        (protect ? securitySchemeNames?.map((name) => ({ [name]: [] })) : undefined);
 
       pathsObject[path] = {
         ...pathsObject[path],
         [httpMethod]: {
-          operationId: procedurePath.replace(/\./g, '-'),
+          operationId: getOperationId(procedurePath),
           summary,
           description,
           tags,
           security,
+          ...(parameters ? { parameters } : {}),
           ...requestData,
           responses,
+          ...(callbacks ? { callbacks } : {}),
           ...(openapi.deprecated ? { deprecated: openapi.deprecated } : {}),
         },
       };
@@ -193,6 +328,81 @@ export const getOpenApiPathsObject = <TMeta = Record<string, unknown>>(
   return pathsObject;
 };
 
+const setExampleRefs = (
+  components: OpenApiComponentsObject | undefined,
+  content: ZodOpenApiContentObject,
+  names: string[],
+) => {
+  const examples = Object.fromEntries(
+    names.map((name) => [name, getComponentRef(components, 'examples', name)]),
+  );
+  for (const mediaType of Object.values(content)) {
+    if (mediaType) {
+      mediaType.examples = examples;
+    }
+  }
+};
+
+// webhooks and callbacks are both documented as requests the API sends with `payload` as the body
+const getWebhookPathItem = (webhook: OpenApiWebhookObject): ZodOpenApiPathItemObject => {
+  const { method = 'POST', contentType = 'application/json' } = webhook;
+  const httpMethod = HttpMethods[method];
+  if (!httpMethod) {
+    throw new TRPCError({
+      message: 'Method must be GET, POST, PATCH, PUT or DELETE',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+  if (!instanceofZodType(webhook.payload)) {
+    throw new TRPCError({
+      message: 'Payload expects a Zod validator',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+
+  return {
+    [httpMethod]: {
+      summary: webhook.summary,
+      description: webhook.description,
+      tags: webhook.tags,
+      requestBody: {
+        required: true,
+        content: { [contentType]: { schema: webhook.payload } },
+      },
+      responses: {
+        200: { description: webhook.successDescription ?? 'Successful response' },
+      },
+      ...(webhook.deprecated ? { deprecated: webhook.deprecated } : {}),
+    },
+  };
+};
+
+export const getOpenApiWebhooksObject = (
+  webhooks: Record<string, OpenApiWebhookObject>,
+  openApiVersion: string,
+): ZodOpenApiPathsObject => {
+  // the `webhooks` section was only added in OpenAPI 3.1
+  if (!openApiVersion.startsWith('3.1.')) {
+    throw new TRPCError({
+      message: `Webhooks require OpenAPI 3.1, got ${openApiVersion}`,
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+
+  return Object.fromEntries(
+    Object.entries(webhooks).map(([name, webhook]) => {
+      try {
+        return [name, getWebhookPathItem(webhook)];
+      } catch (error: unknown) {
+        if (error instanceof TRPCError) {
+          error.message = `[webhook.${name}] - ${error.message}`;
+        }
+        throw error;
+      }
+    }),
+  );
+};
+
 export const mergePaths = (x?: ZodOpenApiPathsObject, y?: ZodOpenApiPathsObject) => {
   if (x === undefined) return y;
   if (y === undefined) return x;
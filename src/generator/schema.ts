@@ -1,5 +1,6 @@
 import { TRPCError } from '@trpc/server';
-import { AnyZodObject, ZodTypeAny, z } from 'zod';
+import { STATUS_CODES } from 'http';
+import { AnyZodObject, ZodRawShape, ZodTypeAny, z } from 'zod';
 import {
   ZodOpenApiContentObject,
   ZodOpenApiParameters,
@@ -10,17 +11,30 @@ import {
 } from 'zod-openapi';
 
 import {
-  HTTP_STATUS_TRPC_ERROR_CODE,
-  TRPC_ERROR_CODE_HTTP_STATUS,
-  TRPC_ERROR_CODE_MESSAGE,
+  OpenApiErrorCodes,
+  getErrorCodeMessage,
+  getErrorCodeStatus,
+  getStatusErrorCode,
 } from '../adapters';
-import { OpenApiContentType } from '../types';
 import {
+  OpenApiContentType,
+  OpenApiErrorCode,
+  OpenApiErrorFormat,
+  OpenApiErrorResponseObject,
+} from '../types';
+import {
+  OpenApiInputBinding,
+  getAsyncIterableItem,
+  getMediaType,
+  getParamExplode,
+  getZodOpenApiMetadata,
   instanceofZodType,
+  instanceofZodTypeArray,
   instanceofZodTypeCoercible,
   instanceofZodTypeKind,
   instanceofZodTypeLikeString,
   instanceofZodTypeLikeVoid,
+  instanceofZodTypeObject,
   instanceofZodTypeOptional,
   unwrapZodType,
   zodSupportsCoerce,
@@ -29,12 +43,31 @@ import { HttpMethods } from './paths';
 
 extendZodWithOpenApi(z);
 
+const assertParameterType = (key: string, schema: ZodTypeAny) => {
+  if (instanceofZodTypeLikeString(schema)) {
+    return;
+  }
+  if (!zodSupportsCoerce) {
+    throw new TRPCError({
+      message: `Input parser key: "${key}" must be ZodString`,
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+  if (!instanceofZodTypeCoercible(schema)) {
+    throw new TRPCError({
+      message: `Input parser key: "${key}" must be ZodString, ZodNumber, ZodBoolean, ZodBigInt or ZodDate`,
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
 export const getParameterObjects = (
   schema: z.ZodObject<z.ZodRawShape>,
   required: boolean,
   pathParameters: string[],
   headersSchema: AnyZodObject | undefined,
   inType: 'all' | 'path' | 'query',
+  inputBindings: Record<string, OpenApiInputBinding> = {},
 ): ZodOpenApiParameters | undefined => {
   const shape = schema.shape;
   const shapeKeys = Object.keys(shape);
@@ -48,13 +81,29 @@ export const getParameterObjects = (
     }
   }
 
-  const { path, query } = shapeKeys
+  for (const [key, binding] of Object.entries(inputBindings)) {
+    if (!shapeKeys.includes(key)) {
+      throw new TRPCError({
+        message: `Input parser expects key from ${binding.in}: "${key}"`,
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    }
+    if (pathParameters.includes(key)) {
+      throw new TRPCError({
+        message: `Path parameter: "${key}" must not be read from a ${binding.in}`,
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    }
+  }
+
+  const params = shapeKeys
     .filter((shapeKey) => {
-      const isPathParameter = pathParameters.includes(shapeKey);
+      // path parameters & keys read from headers or cookies are never part of the request body
+      const isParameter = pathParameters.includes(shapeKey) || !!inputBindings[shapeKey];
       if (inType === 'path') {
-        return isPathParameter;
+        return isParameter;
       } else if (inType === 'query') {
-        return !isPathParameter;
+        return !isParameter;
       }
       return true;
     })
@@ -62,21 +111,29 @@ export const getParameterObjects = (
       let shapeSchema = shape[shapeKey]!;
       const isShapeRequired = !shapeSchema.isOptional();
       const isPathParameter = pathParameters.includes(shapeKey);
+      const binding = inputBindings[shapeKey];
+      const paramType: 'path' | 'query' | OpenApiInputBinding['in'] = isPathParameter
+        ? 'path'
+        : (binding?.in ?? 'query');
 
-      if (!instanceofZodTypeLikeString(shapeSchema)) {
-        if (zodSupportsCoerce) {
-          if (!instanceofZodTypeCoercible(shapeSchema)) {
-            throw new TRPCError({
-              message: `Input parser key: "${shapeKey}" must be ZodString, ZodNumber, ZodBoolean, ZodBigInt or ZodDate`,
-              code: 'INTERNAL_SERVER_ERROR',
-            });
-          }
-        } else {
-          throw new TRPCError({
-            message: `Input parser key: "${shapeKey}" must be ZodString`,
-            code: 'INTERNAL_SERVER_ERROR',
-          });
+      const unwrappedShapeSchema = unwrapZodType(shapeSchema, false);
+      const isArray = instanceofZodTypeArray(unwrappedShapeSchema);
+      const isObject = instanceofZodTypeObject(unwrappedShapeSchema);
+      if ((isArray || isObject) && paramType !== 'query') {
+        const paramLabel = `${paramType.charAt(0).toUpperCase()}${paramType.slice(1)}`;
+        throw new TRPCError({
+          message: `${paramLabel} parameter: "${shapeKey}" must not be an ${isArray ? 'array' : 'object'}`,
+          code: 'INTERNAL_SERVER_ERROR',
+        });
+      }
+
+      if (isObject) {
+        // nested objects are sent as `deepObject` parameters, e.g. `?filter[status]=open`
+        for (const [key, propertySchema] of Object.entries(unwrappedShapeSchema.shape)) {
+          assertParameterType(`${shapeKey}.${key}`, propertySchema);
         }
+      } else {
+        assertParameterType(shapeKey, isArray ? unwrappedShapeSchema.element : shapeSchema);
       }
 
       if (instanceofZodTypeOptional(shapeSchema)) {
@@ -89,22 +146,48 @@ export const getParameterObjects = (
         shapeSchema = shapeSchema.unwrap();
       }
 
+      // arrays are sent as repeated keys or comma-separated, objects as `filter[status]=open`
+      const param =
+        isArray || isObject
+          ? {
+              style: isArray ? ('form' as const) : ('deepObject' as const),
+              explode: isArray ? getParamExplode(shape[shapeKey]!) : true,
+              ...getZodOpenApiMetadata(shape[shapeKey]!)?.param,
+              ...getZodOpenApiMetadata(shapeSchema)?.param,
+            }
+          : undefined;
+
       return {
-        name: shapeKey,
-        paramType: isPathParameter ? 'path' : 'query',
+        name: binding?.name ?? shapeKey,
+        paramType,
         required: isPathParameter || (required && isShapeRequired),
         schema: shapeSchema,
+        param,
       };
     })
     .reduce(
-      ({ path, query }, { name, paramType, schema, required }) =>
-        paramType === 'path'
-          ? { path: { ...path, [name]: required ? schema : schema.optional() }, query }
-          : { path, query: { ...query, [name]: required ? schema : schema.optional() } },
-      { path: {} as Record<string, ZodTypeAny>, query: {} as Record<string, ZodTypeAny> },
+      (acc, { name, paramType, schema, required, param }) => {
+        const paramSchema = required ? schema : schema.optional();
+        acc[paramType][name] = param ? paramSchema.openapi({ param }) : paramSchema;
+        return acc;
+      },
+      { path: {}, query: {}, header: {}, cookie: {} } as Record<
+        'path' | 'query' | 'header' | 'cookie',
+        Record<string, ZodTypeAny>
+      >,
     );
 
-  return { header: headersSchema, path: z.object(path), query: z.object(query) };
+  const header =
+    Object.keys(params.header).length > 0
+      ? (headersSchema ?? z.object({})).extend(params.header)
+      : headersSchema;
+
+  return {
+    header,
+    path: z.object(params.path),
+    query: z.object(params.query),
+    cookie: z.object(params.cookie),
+  };
 };
 
 export const getRequestBodyObject = (
@@ -119,10 +202,13 @@ export const getRequestBodyObject = (
     mask[pathParameter] = true;
   });
   const o = schema._def.zodOpenApi?.openapi;
-  const dedupedSchema = schema.omit(mask).openapi({
-    ...(o?.title ? { title: o?.title } : {}),
-    ...(o?.description ? { description: o?.description } : {}),
-  });
+  const dedupedSchema =
+    Object.keys(mask).length === 0
+      ? schema
+      : schema.omit(mask).openapi({
+          ...(o?.title ? { title: o?.title } : {}),
+          ...(o?.description ? { description: o?.description } : {}),
+        });
 
   // if all keys are path parameters
   if (pathParameters.length > 0 && Object.keys(dedupedSchema.shape).length === 0) {
@@ -146,13 +232,80 @@ export const hasInputs = (schema: unknown) =>
 
 const errorResponseObjectByCode: Record<string, ZodOpenApiResponseObject> = {};
 
+const problemResponseObject = (
+  code: OpenApiErrorCode,
+  message: string | undefined,
+  issues: { message: string }[] | undefined,
+  status: number,
+): ZodOpenApiResponseObject => {
+  const key = `problem.${code}`;
+  const cacheKey = `${key}.${status}`;
+  if (!errorResponseObjectByCode[cacheKey]) {
+    const title = STATUS_CODES[status] ?? 'Unknown error';
+    errorResponseObjectByCode[cacheKey] = {
+      description: message ?? 'An error response',
+      content: {
+        'application/problem+json': {
+          schema: z
+            .object({
+              type: z.string().openapi({
+                description: 'A URI reference identifying the problem type',
+                example: 'about:blank',
+              }),
+              title: z.string().openapi({
+                description: 'A short summary of the problem type',
+                example: title,
+              }),
+              status: z.number().int().openapi({
+                description: 'The HTTP status code',
+                example: status,
+              }),
+              detail: z.string().openapi({
+                description: 'The error message',
+                example: message ?? 'Internal server error',
+              }),
+              instance: z.string().openapi({
+                description: 'The path of the request that caused the error',
+              }),
+              code: z.string().openapi({
+                description: 'The error code',
+                example: code,
+              }),
+              issues: z
+                .array(z.object({ message: z.string() }))
+                .optional()
+                .openapi({
+                  description: 'An array of issues that were responsible for the error',
+                  example: issues ?? [],
+                }),
+            })
+            .openapi({
+              title: `${message ?? 'Internal server'} error (${status})`,
+              description: 'The problem details',
+              ref: key,
+            }),
+        },
+      },
+    };
+  }
+  return errorResponseObjectByCode[cacheKey];
+};
+
 export const errorResponseObject = (
-  code: TRPCError['code'] = 'INTERNAL_SERVER_ERROR',
+  code: OpenApiErrorCode = 'INTERNAL_SERVER_ERROR',
   message?: string,
   issues?: { message: string }[],
+  errorFormat: OpenApiErrorFormat = 'default',
+  errorCodes?: OpenApiErrorCodes,
 ): ZodOpenApiResponseObject => {
-  if (!errorResponseObjectByCode[code]) {
-    errorResponseObjectByCode[code] = {
+  const status = getErrorCodeStatus(code, errorCodes) ?? 500;
+  if (errorFormat === 'problem') {
+    return problemResponseObject(code, message, issues, status);
+  }
+  // the same code can have another status in another document
+  const key = `${code}.${status}`;
+  if (!errorResponseObjectByCode[key]) {
+    errorResponseObjectByCode[key] = {
       description: message ?? 'An error response',
       content: {
         'application/json': {
@@ -175,9 +328,7 @@ export const errorResponseObject = (
                 }),
             })
             .openapi({
-              title: `${message ?? 'Internal server'} error (${
-                TRPC_ERROR_CODE_HTTP_STATUS[code] ?? 500
-              })`,
+              title: `${message ?? 'Internal server'} error (${status})`,
               description: 'The error information',
               example: {
                 code: code ?? 'INTERNAL_SERVER_ERROR',
@@ -190,17 +341,106 @@ export const errorResponseObject = (
       },
     };
   }
-  return errorResponseObjectByCode[code];
+  return errorResponseObjectByCode[key];
+};
+
+export const errorResponseFromStatusCode = (
+  status: number,
+  errorFormat: OpenApiErrorFormat = 'default',
+  errorCodes?: OpenApiErrorCodes,
+) => {
+  const code = getStatusErrorCode(status, errorCodes);
+  const message = code && getErrorCodeMessage(code, errorCodes);
+  return errorResponseObject(code, message ?? 'Unknown error', undefined, errorFormat, errorCodes);
+};
+
+export const errorResponseFromMessage = (
+  status: number,
+  message: string,
+  errorFormat: OpenApiErrorFormat = 'default',
+  errorCodes?: OpenApiErrorCodes,
+) =>
+  errorResponseObject(
+    getStatusErrorCode(status, errorCodes),
+    message,
+    undefined,
+    errorFormat,
+    errorCodes,
+  );
+
+// the error schema is extended with `data`, so it still refers to the shared `error.CODE` component
+const errorResponseWithData = (
+  status: number,
+  response: OpenApiErrorResponseObject,
+  errorFormat: OpenApiErrorFormat,
+  errorCodes: OpenApiErrorCodes | undefined,
+) => {
+  const { description, content } =
+    response.description !== undefined
+      ? errorResponseFromMessage(status, response.description, errorFormat, errorCodes)
+      : errorResponseFromStatusCode(status, errorFormat, errorCodes);
+  if (!response.data) {
+    return { description: response.description ?? description, content };
+  }
+  const mediaType = errorFormat === 'problem' ? 'application/problem+json' : 'application/json';
+  const schema = content![mediaType]!.schema as AnyZodObject;
+  return {
+    description: response.description ?? description,
+    content: { [mediaType]: { schema: schema.extend({ data: response.data }) } },
+  };
 };
 
-export const errorResponseFromStatusCode = (status: number) => {
-  const code = HTTP_STATUS_TRPC_ERROR_CODE[status];
-  const message = code && TRPC_ERROR_CODE_MESSAGE[code];
-  return errorResponseObject(code, message ?? 'Unknown error');
+// fields of the error shape never replace the fields of the error body or its `data` schema
+export const extendErrorResponses = (
+  responses: ZodOpenApiResponsesObject,
+  errorShape: AnyZodObject,
+) => {
+  // extensions of the responses object are typed as `any`, only responses are set here
+  const entries = Object.entries(responses) as [
+    string,
+    ZodOpenApiResponseObject | { $ref: string } | undefined,
+  ][];
+  for (const [status, response] of entries) {
+    const mediaType =
+      response && 'content' in response ? response.content?.['application/json'] : undefined;
+    if (Number(status) < 400 || !response || !mediaType) {
+      continue;
+    }
+    const schema = mediaType.schema as AnyZodObject;
+    const shape = Object.fromEntries(
+      Object.entries(errorShape.shape as ZodRawShape).filter(([key]) => !(key in schema.shape)),
+    );
+    responses[status as `${1 | 2 | 3 | 4 | 5}${string}`] = {
+      ...response,
+      content: { 'application/json': { ...mediaType, schema: schema.extend(shape) } },
+    };
+  }
 };
 
-export const errorResponseFromMessage = (status: number, message: string) =>
-  errorResponseObject(HTTP_STATUS_TRPC_ERROR_CODE[status], message);
+const getSuccessResponseSchema = (schema: ZodTypeAny, contentType: OpenApiContentType) => {
+  const mediaType = getMediaType(contentType);
+  // items are streamed as a JSON array, or one by one e.g. as server-sent events or NDJSON lines
+  const item = getAsyncIterableItem(schema);
+  if (item) {
+    return mediaType === 'application/json' ? z.array(item) : item;
+  }
+  if (mediaType === 'application/json') {
+    return instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodVoid)
+      ? {}
+      : instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodNever) ||
+        instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodUndefined)
+      ? { not: {} }
+      : schema;
+  }
+  // each event or line carries one item of the stream
+  if (mediaType === 'text/event-stream' || mediaType === 'application/x-ndjson') {
+    return schema;
+  }
+  if (mediaType?.startsWith('text/')) {
+    return instanceofZodTypeLikeString(schema) ? schema : { type: 'string' as const };
+  }
+  return { type: 'string' as const, format: 'binary' };
+};
 
 export const getResponsesObject = (
   schema: ZodTypeAny,
@@ -209,48 +449,84 @@ export const getResponsesObject = (
   isProtected: boolean,
   hasInputs: boolean,
   successDescription?: string,
-  errorResponses?: number[] | Record<number, string>,
+  errorResponses?: number[] | Record<number, string | OpenApiErrorResponseObject>,
+  responseContentType: OpenApiContentType = 'application/json',
+  successStatus = 200,
+  errorFormat: OpenApiErrorFormat = 'default',
+  errorCodes?: OpenApiErrorCodes,
 ): ZodOpenApiResponsesObject => ({
-  200: {
+  [successStatus]: {
     description: successDescription ?? 'Successful response',
     headers: headers,
-    content: {
-      'application/json': {
-        schema: instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodVoid)
-          ? {}
-          : instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodNever) ||
-            instanceofZodTypeKind(schema, z.ZodFirstPartyTypeKind.ZodUndefined)
-          ? { not: {} }
-          : schema,
-      },
-    },
+    // 204 responses never have a body
+    ...(successStatus !== 204
+      ? {
+          content: {
+            [responseContentType]: {
+              schema: getSuccessResponseSchema(schema, responseContentType),
+            },
+          },
+        }
+      : {}),
   },
   ...(errorResponses !== undefined
     ? Object.fromEntries(
         Array.isArray(errorResponses)
-          ? errorResponses.map((x) => [x, errorResponseFromStatusCode(x)])
+          ? errorResponses.map((x) => [x, errorResponseFromStatusCode(x, errorFormat, errorCodes)])
           : Object.entries(errorResponses).map(([k, v]) => [
               k,
-              errorResponseFromMessage(Number(k), v),
+              typeof v === 'string'
+                ? errorResponseFromMessage(Number(k), v, errorFormat, errorCodes)
+                : errorResponseWithData(Number(k), v, errorFormat, errorCodes),
             ]),
       )
     : {
         ...(isProtected
           ? {
-              401: errorResponseObject('UNAUTHORIZED', 'Authorization not provided'),
-              403: errorResponseObject('FORBIDDEN', 'Insufficient access'),
+              [getErrorCodeStatus('UNAUTHORIZED', errorCodes) ?? 401]: errorResponseObject(
+                'UNAUTHORIZED',
+                'Authorization not provided',
+                undefined,
+                errorFormat,
+                errorCodes,
+              ),
+              [getErrorCodeStatus('FORBIDDEN', errorCodes) ?? 403]: errorResponseObject(
+                'FORBIDDEN',
+                'Insufficient access',
+                undefined,
+                errorFormat,
+                errorCodes,
+              ),
             }
           : {}),
         ...(hasInputs
           ? {
-              400: errorResponseObject('BAD_REQUEST', 'Invalid input data'),
+              [getErrorCodeStatus('BAD_REQUEST', errorCodes) ?? 400]: errorResponseObject(
+                'BAD_REQUEST',
+                'Invalid input data',
+                undefined,
+                errorFormat,
+                errorCodes,
+              ),
               ...(httpMethod !== HttpMethods.POST
                 ? {
-                    404: errorResponseObject('NOT_FOUND', 'Not found'),
+                    [getErrorCodeStatus('NOT_FOUND', errorCodes) ?? 404]: errorResponseObject(
+                      'NOT_FOUND',
+                      'Not found',
+                      undefined,
+                      errorFormat,
+                      errorCodes,
+                    ),
                   }
                 : {}),
             }
           : {}),
-        500: errorResponseObject('INTERNAL_SERVER_ERROR', 'Internal server error'),
+        [getErrorCodeStatus('INTERNAL_SERVER_ERROR', errorCodes) ?? 500]: errorResponseObject(
+          'INTERNAL_SERVER_ERROR',
+          'Internal server error',
+          undefined,
+          errorFormat,
+          errorCodes,
+        ),
       }),
 });
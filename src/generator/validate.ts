@@ -0,0 +1,35 @@
+import { createDocument } from 'zod-openapi';
+
+import { OpenApiErrorFormat, OpenApiRouter, type SecuritySchemeObject } from '../types';
+import { getOpenApiPathsObject } from './paths';
+
+export interface ValidateOpenApiRouterOptions {
+  /**
+   * Security schemes the procedure security requirements are checked against, requirements are
+   * not checked if the schemes are only passed to `generateOpenApiDocument`.
+   */
+  securitySchemes?: Record<string, SecuritySchemeObject>;
+  errorFormat?: OpenApiErrorFormat;
+}
+
+/**
+ * Runs the checks `generateOpenApiDocument` runs on the procedures of a router, used by the
+ * handlers outside of production. Components are only passed to the generator, so the names of
+ * `meta.openapi.refs` are not checked.
+ */
+export const validateOpenApiRouter = (
+  appRouter: OpenApiRouter,
+  opts: ValidateOpenApiRouterOptions,
+) => {
+  createDocument({
+    openapi: '3.0.3',
+    info: { title: '', version: '' },
+    paths: getOpenApiPathsObject(
+      appRouter,
+      opts.securitySchemes && Object.keys(opts.securitySchemes),
+      undefined,
+      undefined,
+      opts.errorFormat,
+    ),
+  });
+};
@@ -7,7 +7,9 @@ import type {
   RouterRecord,
 } from '@trpc/server/unstable-core-do-not-import';
 import { IncomingMessage } from 'http';
-import type { AnyZodObject, ZodIssue } from 'zod';
+import type { AnyZodObject, ZodIssue, ZodTypeAny } from 'zod';
+
+import type { SecuritySchemeObject } from 'openapi3-ts/oas31';
 
 export { type OpenAPIObject, type SecuritySchemeObject } from 'openapi3-ts/oas31';
 
@@ -21,6 +23,106 @@ export type OpenApiContentType =
   // eslint-disable-next-line @typescript-eslint/ban-types
   | (string & {});
 
+export interface OpenApiCorsOptions {
+  /**
+   * Origins allowed to access the resource, `true` reflects the request origin.
+   * @default '*'
+   */
+  origin?: boolean | string | string[] | RegExp | ((origin: string) => boolean);
+  /**
+   * Methods advertised in preflight responses, defaults to the methods registered for the path.
+   */
+  methods?: string[];
+  /**
+   * Request headers allowed in preflight responses, defaults to the requested headers.
+   */
+  allowedHeaders?: string[];
+  exposedHeaders?: string[];
+  credentials?: boolean;
+  maxAge?: number;
+}
+
+/**
+ * Names of the `components` passed to `generateOpenApiDocument` that an operation refers to.
+ */
+export interface OpenApiComponentRefs {
+  /**
+   * Parameters added to the operation, e.g. `['Pagination']`.
+   */
+  parameters?: string[];
+  /**
+   * Responses by status code, replacing any generated response of the same status.
+   */
+  responses?: Record<number, string>;
+  /**
+   * Examples added to each media type of the request body.
+   */
+  requestExamples?: string[];
+  /**
+   * Examples added to each media type of the success response.
+   */
+  responseExamples?: string[];
+}
+
+export interface OpenApiErrorResponseObject {
+  description?: string;
+  /**
+   * Schema of the `data` member of the error body. The handler fills it from the `TRPCError`
+   * cause, or from the `data` of the `errorFormatter` output, whichever matches the schema.
+   */
+  data?: ZodTypeAny;
+}
+
+export interface OpenApiWebhookObject {
+  /**
+   * @default 'POST'
+   */
+  method?: OpenApiMethod;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  /**
+   * Schema of the request body the webhook is sent with.
+   */
+  payload: ZodTypeAny;
+  /**
+   * @default 'application/json'
+   */
+  contentType?: OpenApiContentType;
+  /**
+   * Description of the response receivers are expected to answer with.
+   */
+  successDescription?: string;
+  deprecated?: boolean;
+}
+
+export interface OpenApiCallbackObject extends OpenApiWebhookObject {
+  /**
+   * Runtime expression of the URL the callback is sent to, e.g. `{$request.body#/callbackUrl}`.
+   */
+  url: string;
+}
+
+export interface OpenApiLinkObject {
+  /**
+   * tRPC path of the linked procedure, e.g. `users.getById`.
+   */
+  procedure: string;
+  /**
+   * Inputs of the linked procedure mapped to values or runtime expressions, e.g.
+   * `{ id: '$response.body#/id' }`.
+   */
+  parameters?: Record<string, unknown>;
+  requestBody?: unknown;
+  description?: string;
+}
+
+/**
+ * Security scheme names mapped to the scopes they require, every scheme of a requirement has to be
+ * satisfied while any one requirement of a list is enough.
+ */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
 export type OpenApiMeta<TMeta = TRPCMeta> = TMeta & {
   openapi?: {
     enabled?: boolean;
@@ -29,13 +131,22 @@ export type OpenApiMeta<TMeta = TRPCMeta> = TMeta & {
     summary?: string;
     description?: string;
     protect?: boolean;
+    security?: OpenApiSecurityRequirement[];
     tags?: string[];
     contentTypes?: OpenApiContentType[];
     deprecated?: boolean;
     requestHeaders?: AnyZodObject;
     responseHeaders?: AnyZodObject;
+    inputHeaders?: Record<string, string>;
+    inputCookies?: Record<string, string>;
     successDescription?: string;
-    errorResponses?: number[] | Record<number, string>;
+    successStatus?: number;
+    responseContentType?: OpenApiContentType;
+    errorResponses?: number[] | Record<number, string | OpenApiErrorResponseObject>;
+    cors?: boolean | OpenApiCorsOptions;
+    refs?: OpenApiComponentRefs;
+    callbacks?: Record<string, OpenApiCallbackObject>;
+    links?: Record<string, OpenApiLinkObject>;
   };
 };
 
@@ -61,13 +172,103 @@ export type OpenApiRouter = Router<
 
 export type OpenApiSuccessResponse<D = any> = D;
 
+/**
+ * A tRPC error code, or a code added with the `errorCodes` option.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export type OpenApiErrorCode = TRPC_ERROR_CODE_KEY | (string & {});
+
 export interface OpenApiErrorResponse {
   message: string;
-  code: TRPC_ERROR_CODE_KEY;
+  code: OpenApiErrorCode;
+  issues?: ZodIssue[];
+  data?: unknown;
+}
+
+/**
+ * An RFC 9457 problem details body, the tRPC error code and zod issues are extension members.
+ */
+export interface OpenApiProblemResponse {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: OpenApiErrorCode;
   issues?: ZodIssue[];
+  data?: unknown;
+}
+
+/**
+ * `problem` sends errors as `application/problem+json` problem details instead of the default
+ * `{ message, code, issues }` body.
+ */
+export type OpenApiErrorFormat = 'default' | 'problem';
+
+export type OpenApiResponse<D = any> =
+  | OpenApiSuccessResponse<D>
+  | OpenApiErrorResponse
+  | OpenApiProblemResponse;
+
+export interface OpenApiCookieOptions {
+  domain?: string;
+  path?: string;
+  expires?: Date;
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Lets a procedure control the status, headers and cookies of its successful REST response.
+ */
+export interface OpenApiResponseControl {
+  readonly status: number | undefined;
+  readonly headers: Record<string, string | string[]>;
+  setStatus: (status: number) => void;
+  setHeader: (name: string, value: string | string[]) => void;
+  setCookie: (name: string, value: string, opts?: OpenApiCookieOptions) => void;
 }
 
-export type OpenApiResponse<D = any> = OpenApiSuccessResponse<D> | OpenApiErrorResponse;
+export type OpenApiCredential =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'apiKey'; key: string };
+
+export interface OpenApiAuthOptions<TPrincipal = unknown> {
+  /**
+   * Schemes to read credentials from, these should match the `securitySchemes` passed to
+   * `generateOpenApiDocument`.
+   * @default { Authorization: { type: 'http', scheme: 'bearer' } }
+   */
+  securitySchemes?: Record<string, SecuritySchemeObject>;
+  /**
+   * Resolves the principal a credential belongs to, return `undefined` or `null` to reject it.
+   */
+  verify: (opts: {
+    scheme: string;
+    credential: OpenApiCredential;
+    req: NodeHTTPRequest;
+  }) => TPrincipal | undefined | null | Promise<TPrincipal | undefined | null>;
+  /**
+   * Returns the scopes granted to a principal, calls missing a scope required by
+   * `meta.openapi.security` are rejected with `403`. Scopes are not checked if this is not set.
+   */
+  getScopes?(opts: { scheme: string; principal: TPrincipal }): string[] | Promise<string[]>;
+}
+
+export interface OpenApiContext<TPrincipal = unknown> {
+  /**
+   * Only present when the procedure is called through a `trpc-to-openapi` adapter.
+   */
+  openApiResponse?: OpenApiResponseControl;
+  /**
+   * The verified principal of a protected procedure, only present when the handler `auth` option
+   * is set.
+   */
+  openApiAuth?: { scheme: string; principal: TPrincipal };
+}
 
 export type NodeHTTPRequest = IncomingMessage & {
   body?: unknown;
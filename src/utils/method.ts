@@ -1,8 +1,8 @@
 import { incomingMessageToRequest, NodeHTTPResponse } from '@trpc/server/adapters/node-http';
 import { NodeHTTPRequest, OpenApiMethod } from '../types';
 
-export const acceptsRequestBody = (method: OpenApiMethod | 'HEAD') => {
-  if (method === 'GET' || method === 'DELETE') {
+export const acceptsRequestBody = (method: OpenApiMethod | 'HEAD' | 'OPTIONS') => {
+  if (method === 'GET' || method === 'DELETE' || method === 'HEAD' || method === 'OPTIONS') {
     return false;
   }
   return true;
@@ -16,6 +16,42 @@ export const getContentType = (req: NodeHTTPRequest | Request): string | undefin
   return req.headers['content-type'] ?? undefined;
 };
 
+export const getMediaType = (contentType: string | undefined): string | undefined => {
+  const mediaType = contentType?.split(';')[0]?.trim().toLowerCase();
+  return mediaType ? mediaType : undefined;
+};
+
+export const getRequestHeader = (
+  req: NodeHTTPRequest | Request,
+  name: string,
+): string | undefined => {
+  if (req instanceof Request) {
+    return req.headers.get(name) ?? undefined;
+  }
+
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+export const getRequestCookie = (
+  req: NodeHTTPRequest | Request,
+  name: string,
+): string | undefined => {
+  const cookies = getRequestHeader(req, 'cookie')?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const index = cookie.indexOf('=');
+    if (index !== -1 && cookie.slice(0, index).trim() === name) {
+      const value = cookie.slice(index + 1).trim();
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return undefined;
+};
+
 export const getRequestSignal = (
   req: NodeHTTPRequest | Request,
   res: NodeHTTPResponse,
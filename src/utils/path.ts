@@ -6,6 +6,10 @@ export const getPathParameters = (path: string): string[] => {
   return Array.from(path.matchAll(/\{(.+?)\}/g)).map(([, key]) => key!);
 };
 
+/**
+ * @deprecated Routes are matched with `createRouteMatcher`, this is kept for compatibility and
+ * will be removed in the next major version.
+ */
 export const getPathRegExp = (path: string) => {
   const groupedExp = path.replace(/\{(.+?)\}/g, (_, key: string) => `(?<${key}>[^/]+)`);
   return new RegExp(`^${groupedExp}$`, 'i');
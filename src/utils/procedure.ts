@@ -1,7 +1,13 @@
 import { TRPCProcedureType } from '@trpc/server';
 import { AnyZodObject, z } from 'zod';
 
-import { OpenApiMeta, OpenApiProcedure, OpenApiProcedureRecord } from '../types';
+import {
+  OpenApiContentType,
+  OpenApiMeta,
+  OpenApiProcedure,
+  OpenApiProcedureRecord,
+} from '../types';
+import { hasFileFields, instanceofZodType, instanceofZodTypeObject, unwrapZodType } from './zod';
 
 const mergeInputs = (inputParsers: AnyZodObject[]): AnyZodObject => {
   return inputParsers.reduce((acc, inputParser) => {
@@ -27,6 +33,44 @@ export const getInputOutputParsers = (
   };
 };
 
+// inputs with file fields default to `multipart/form-data` instead of `application/json`
+export const getContentTypes = (
+  openapi: NonNullable<OpenApiMeta['openapi']>,
+  inputParser: unknown,
+): OpenApiContentType[] => {
+  if (openapi.contentTypes) {
+    return openapi.contentTypes;
+  }
+  const inputSchema = instanceofZodType(inputParser) && unwrapZodType(inputParser, true);
+  if (inputSchema && instanceofZodTypeObject(inputSchema) && hasFileFields(inputSchema)) {
+    return ['multipart/form-data'];
+  }
+  return ['application/json'];
+};
+
+// `security` requirements take precedence over `protect`, an empty list makes a procedure public
+export const isProtectedProcedure = (openapi: NonNullable<OpenApiMeta['openapi']>): boolean =>
+  openapi.security ? openapi.security.length > 0 : openapi.protect !== false;
+
+export interface OpenApiInputBinding {
+  in: 'header' | 'cookie';
+  name: string;
+}
+
+// input keys read from request headers & cookies, keyed by the input key
+export const getInputBindings = (
+  openapi: NonNullable<OpenApiMeta['openapi']>,
+): Record<string, OpenApiInputBinding> => {
+  const bindings: Record<string, OpenApiInputBinding> = {};
+  for (const [key, name] of Object.entries(openapi.inputHeaders ?? {})) {
+    bindings[key] = { in: 'header', name };
+  }
+  for (const [key, name] of Object.entries(openapi.inputCookies ?? {})) {
+    bindings[key] = { in: 'cookie', name };
+  }
+  return bindings;
+};
+
 const getProcedureType = (procedure: OpenApiProcedure): TRPCProcedureType => {
   if (!procedure._def.type) {
     throw new Error('Unknown procedure type');
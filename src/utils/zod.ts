@@ -1,4 +1,12 @@
+import {
+  type TrackedEnvelope,
+  isTrackedEnvelope,
+  tracked,
+} from '@trpc/server/unstable-core-do-not-import';
 import { ZodObject, ZodRawShape, z } from 'zod';
+import { extendZodWithOpenApi } from 'zod-openapi';
+
+extendZodWithOpenApi(z);
 
 export const instanceofZodType = (type: any): type is z.ZodTypeAny => {
   return !!type?._def?.typeName;
@@ -11,6 +19,10 @@ export const instanceofZodTypeKind = <Z extends z.ZodFirstPartyTypeKind>(
   return type?._def?.typeName === zodTypeKind;
 };
 
+// `_def` of a `ZodTypeAny` is untyped, the metadata of `.openapi()` is typed on `ZodTypeDef`
+export const getZodOpenApiMetadata = (type: z.ZodTypeAny) =>
+  (type?._def as z.ZodTypeDef | undefined)?.zodOpenApi?.openapi;
+
 export const instanceofZodTypeOptional = (
   type: z.ZodTypeAny,
 ): type is z.ZodOptional<z.ZodTypeAny> => {
@@ -21,6 +33,10 @@ export const instanceofZodTypeObject = (type: z.ZodTypeAny): type is z.ZodObject
   return instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodObject);
 };
 
+export const instanceofZodTypeArray = (type: z.ZodTypeAny): type is z.ZodArray<z.ZodTypeAny> => {
+  return instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodArray);
+};
+
 export type ZodTypeLikeVoid = z.ZodVoid | z.ZodUndefined | z.ZodNever;
 
 export const instanceofZodTypeLikeVoid = (type: z.ZodTypeAny): type is ZodTypeLikeVoid => {
@@ -32,10 +48,6 @@ export const instanceofZodTypeLikeVoid = (type: z.ZodTypeAny): type is ZodTypeLi
 };
 
 export const unwrapZodType = (type: z.ZodTypeAny, unwrapPreprocess: boolean): z.ZodTypeAny => {
-  // TODO: Allow parsing array query params
-  if (instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodArray)) {
-    return unwrapZodType(type.element, unwrapPreprocess);
-  }
   if (instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodEnum)) {
     return unwrapZodType(z.string(), unwrapPreprocess);
   }
@@ -129,8 +141,115 @@ export const instanceofZodTypeCoercible = (_type: z.ZodTypeAny): _type is ZodTyp
 
 export const coerceSchema = (schema: ZodObject<ZodRawShape>) => {
   Object.values(schema.shape).forEach((shapeSchema) => {
-    const unwrappedShapeSchema = unwrapZodType(shapeSchema, false);
+    let unwrappedShapeSchema = unwrapZodType(shapeSchema, false);
+    // every element of an array is coerced on its own
+    if (instanceofZodTypeArray(unwrappedShapeSchema)) {
+      unwrappedShapeSchema = unwrapZodType(unwrappedShapeSchema.element, false);
+    }
     if (instanceofZodTypeCoercible(unwrappedShapeSchema)) unwrappedShapeSchema._def.coerce = true;
     else if (instanceofZodTypeObject(unwrappedShapeSchema)) coerceSchema(unwrappedShapeSchema);
   });
 };
+
+/**
+ * Whether an array query parameter is sent as repeated keys (`?tag=a&tag=b`) or comma-separated
+ * (`?tag=a,b`), set with `.openapi({ param: { explode: false } })`.
+ */
+export const getParamExplode = (type: z.ZodTypeAny): boolean => {
+  const explode = getZodOpenApiMetadata(type)?.param?.explode;
+  if (typeof explode === 'boolean') {
+    return explode;
+  }
+  if (
+    instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodOptional) ||
+    instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodNullable)
+  ) {
+    return getParamExplode(type.unwrap());
+  }
+  if (instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodDefault)) {
+    return getParamExplode(type.removeDefault());
+  }
+  return true;
+};
+
+export interface ZodFileOptions {
+  /**
+   * Maximum size of the file in bytes.
+   */
+  maxSize?: number;
+  /**
+   * Accepted MIME types of the file, e.g. `['image/png', 'image/jpeg']`.
+   */
+  mimeTypes?: string[];
+}
+
+/**
+ * A file field of a `multipart/form-data` request body, documented as `type: string, format: binary`.
+ */
+export const zodFile = ({ maxSize, mimeTypes }: ZodFileOptions = {}) =>
+  z
+    .custom<File>((value) => value instanceof Blob, { message: 'Expected a file' })
+    .refine((file) => maxSize === undefined || file.size <= maxSize, {
+      message: `File must not be larger than ${maxSize} bytes`,
+    })
+    .refine((file) => mimeTypes === undefined || mimeTypes.includes(file.type), {
+      message: `File type must be one of ${mimeTypes?.join(', ')}`,
+    })
+    .openapi({ type: 'string', format: 'binary' });
+
+const asyncIterableItems = new WeakMap<z.ZodTypeAny, z.ZodTypeAny>();
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+
+const parseAsyncIterable = async function* (iterable: AsyncIterable<unknown>, item: z.ZodTypeAny) {
+  for await (const value of iterable) {
+    yield isTrackedEnvelope(value)
+      ? tracked(value[0], await item.parseAsync(value[1]))
+      : await item.parseAsync(value);
+  }
+};
+
+/**
+ * The output of a procedure yielding items, e.g. a subscription served as server-sent events. Each
+ * item, or the data of a `tracked()` item, is validated as it is yielded and documented with `item`.
+ */
+export const zodAsyncIterable = <T extends z.ZodTypeAny>(item: T) => {
+  const schema = z
+    .custom<AsyncIterable<z.input<T> | TrackedEnvelope<z.input<T>>>>(isAsyncIterable, {
+      message: 'Expected an async iterable',
+    })
+    .transform(
+      (iterable) =>
+        parseAsyncIterable(iterable, item) as AsyncIterable<
+          z.output<T> | TrackedEnvelope<z.output<T>>
+        >,
+    );
+  asyncIterableItems.set(schema, item);
+  return schema;
+};
+
+export const getAsyncIterableItem = (type: unknown): z.ZodTypeAny | undefined =>
+  instanceofZodType(type) ? asyncIterableItems.get(type) : undefined;
+
+export const instanceofZodTypeFile = (type: z.ZodTypeAny): boolean => {
+  if (getZodOpenApiMetadata(type)?.format === 'binary') {
+    return true;
+  }
+  if (instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodArray)) {
+    return instanceofZodTypeFile(type.element);
+  }
+  if (
+    instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodOptional) ||
+    instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodNullable)
+  ) {
+    return instanceofZodTypeFile(type.unwrap());
+  }
+  if (instanceofZodTypeKind(type, z.ZodFirstPartyTypeKind.ZodDefault)) {
+    return instanceofZodTypeFile(type.removeDefault());
+  }
+  return false;
+};
+
+export const hasFileFields = (schema: ZodObject<ZodRawShape>) =>
+  Object.values(schema.shape).some((shapeSchema) => instanceofZodTypeFile(shapeSchema));
@@ -22,7 +22,7 @@ const clearMocks = () => {
 
 const createExpressServerWithRouter = <TRouter extends OpenApiRouter>(
   handlerOpts: CreateOpenApiExpressMiddlewareOptions<TRouter>,
-  serverOpts?: { basePath?: `/${string}` },
+  serverOpts?: { basePath?: `/${string}`; jsonParser?: boolean },
 ) => {
   const openApiExpressMiddleware = createOpenApiExpressMiddleware({
     router: handlerOpts.router,
@@ -34,6 +34,10 @@ const createExpressServerWithRouter = <TRouter extends OpenApiRouter>(
 
   const app = express();
 
+  if (serverOpts?.jsonParser) {
+    app.use(express.json());
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-misused-promises
   app.use(serverOpts?.basePath ?? '/', openApiExpressMiddleware);
 
@@ -142,4 +146,55 @@ describe('express adapter', () => {
 
     close();
   });
+
+  test('with express.json() body parser', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/echo' } })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => input),
+      upload: t.procedure
+        .meta({
+          openapi: { method: 'POST', path: '/upload', contentTypes: ['multipart/form-data'] },
+        })
+        .input(z.object({ name: z.string(), age: z.number() }))
+        .output(z.object({ result: z.string() }))
+        .mutation(({ input }) => ({ result: `${input.name} (${input.age})` })),
+    });
+
+    const { url, close } = createExpressServerWithRouter(
+      { router: appRouter },
+      { jsonParser: true },
+    );
+
+    {
+      const res = await fetch(`${url}/echo`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Lily' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ name: 'Lily' });
+    }
+    {
+      // skipped by `express.json()`, so the handler reads the request itself
+      const data = new FormData();
+      data.append('name', 'Lily');
+      data.append('age', '30');
+      const req = new Request(`${url}/upload`, { method: 'POST', body: data });
+
+      const res = await fetch(`${url}/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': req.headers.get('Content-Type')! },
+        body: Buffer.from(await req.arrayBuffer()),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ result: 'Lily (30)' });
+    }
+
+    close();
+  });
 });
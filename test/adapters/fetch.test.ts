@@ -1,4 +1,4 @@
-import { TRPCError, initTRPC } from '@trpc/server';
+import { TRPCError, initTRPC, tracked } from '@trpc/server';
 import fetch from 'node-fetch';
 import superjson from 'superjson';
 import { z } from 'zod';
@@ -8,6 +8,8 @@ import {
   OpenApiMeta,
   OpenApiRouter,
   createOpenApiFetchHandler,
+  zodAsyncIterable,
+  zodFile,
 } from '../../src';
 import * as zodUtils from '../../src/utils/zod';
 
@@ -28,6 +30,7 @@ const createFetchHandlerCaller = <TRouter extends OpenApiRouter>(
   handlerOpts: CreateOpenApiFetchHandlerOptions<TRouter>,
 ) => {
   const openApiHttpHandler = createOpenApiFetchHandler<TRouter>({
+    ...handlerOpts,
     router: handlerOpts.router,
     createContext: handlerOpts.createContext ?? createContextMock,
     responseMeta: handlerOpts.responseMeta ?? responseMetaMock,
@@ -119,9 +122,10 @@ describe('fetch adapter', () => {
       req,
     });
 
-    expect(res.status).toBe(404);
+    expect(res.status).toBe(405);
+    expect(res.headers.get('Allow')).toBe('POST, OPTIONS');
     expect(await res.json()).toEqual(
-      expect.objectContaining({ message: 'Not found', code: 'NOT_FOUND' }),
+      expect.objectContaining({ message: 'Method not supported', code: 'METHOD_NOT_SUPPORTED' }),
     );
     expect(createContextMock).toHaveBeenCalledTimes(0);
     expect(responseMetaMock).toHaveBeenCalledTimes(1);
@@ -560,6 +564,7 @@ describe('fetch adapter', () => {
       router: appRouter,
       endpoint: '/',
       req,
+      warmup: true,
     });
 
     expect(res.status).toBe(204);
@@ -568,6 +573,93 @@ describe('fetch adapter', () => {
     expect(onErrorMock).toHaveBeenCalledTimes(0);
   });
 
+  test('with HEAD and OPTIONS requests', async () => {
+    const appRouter = t.router({
+      sayHello: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/say-hello' } })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ greeting: z.string() }))
+        .query(({ input }) => ({ greeting: `Hello ${input.name}!` })),
+    });
+
+    {
+      const req = new Request('https://localhost:3000/say-hello?name=Lily', {
+        method: 'HEAD',
+      });
+      const res = await createFetchHandlerCaller({
+        router: appRouter,
+        endpoint: '/',
+        req,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('application/json');
+      expect(await res.text()).toBe('');
+      expect(createContextMock).toHaveBeenCalledTimes(1);
+      expect(responseMetaMock).toHaveBeenCalledTimes(1);
+      expect(onErrorMock).toHaveBeenCalledTimes(0);
+
+      clearMocks();
+    }
+    {
+      const req = new Request('https://localhost:3000/say-hello', {
+        method: 'OPTIONS',
+      });
+      const res = await createFetchHandlerCaller({
+        router: appRouter,
+        endpoint: '/',
+        req,
+      });
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+      expect(createContextMock).toHaveBeenCalledTimes(0);
+    }
+  });
+
+  test('with cors', async () => {
+    const appRouter = t.router({
+      sayHello: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/say-hello' } })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ greeting: z.string() }))
+        .query(({ input }) => ({ greeting: `Hello ${input.name}!` })),
+    });
+
+    {
+      const req = new Request('https://localhost:3000/say-hello', {
+        method: 'OPTIONS',
+        headers: { Origin: 'https://example.com', 'Access-Control-Request-Method': 'GET' },
+      });
+      const res = await createFetchHandlerCaller({
+        router: appRouter,
+        endpoint: '/',
+        req,
+        cors: true,
+      });
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(res.headers.get('Access-Control-Allow-Methods')).toBe('GET, HEAD, OPTIONS');
+    }
+    {
+      const req = new Request('https://localhost:3000/say-hello?name=Lily', {
+        method: 'GET',
+        headers: { Origin: 'https://example.com' },
+      });
+      const res = await createFetchHandlerCaller({
+        router: appRouter,
+        endpoint: '/',
+        req,
+        cors: true,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(await res.json()).toEqual({ greeting: 'Hello Lily!' });
+    }
+  });
+
   test('with invalid json', async () => {
     const appRouter = t.router({
       echo: t.procedure
@@ -1312,10 +1404,307 @@ describe('fetch adapter', () => {
       req,
     });
 
-    expect(res.status).toBe(415);
-    expect(await res.json()).toEqual(expect.objectContaining({ code: 'UNSUPPORTED_MEDIA_TYPE' }));
-    expect(createContextMock).toHaveBeenCalledTimes(0);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ result: 'Hello World' });
+    expect(createContextMock).toHaveBeenCalledTimes(1);
     expect(responseMetaMock).toHaveBeenCalledTimes(1);
-    expect(onErrorMock).toHaveBeenCalledTimes(1);
+    expect(onErrorMock).toHaveBeenCalledTimes(0);
+  });
+
+  test('with multipart/form-data', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({
+          openapi: { method: 'POST', path: '/echo', contentTypes: ['multipart/form-data'] },
+        })
+        .input(z.object({ name: z.string(), age: z.number() }))
+        .output(z.object({ result: z.string() }))
+        .mutation(({ input }) => ({ result: `${input.name} (${input.age})` })),
+    });
+
+    const data = new FormData();
+    data.append('name', 'Lily');
+    data.append('age', '30');
+
+    const req = new Request('https://localhost:3000/echo', { method: 'POST', body: data });
+
+    const res = await createFetchHandlerCaller({
+      router: appRouter,
+      endpoint: '/',
+      req,
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ result: 'Lily (30)' });
+    expect(onErrorMock).toHaveBeenCalledTimes(0);
+  });
+
+  test('with file upload', async () => {
+    const appRouter = t.router({
+      importCsv: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/import' } })
+        .input(z.object({ file: zodFile({ mimeTypes: ['text/csv'] }) }))
+        .output(z.object({ rows: z.number() }))
+        .mutation(async ({ input }) => ({ rows: (await input.file.text()).split('\n').length })),
+    });
+
+    const data = new FormData();
+    data.append('file', new File(['a,b\nc,d'], 'import.csv', { type: 'text/csv' }));
+
+    const req = new Request('https://localhost:3000/import', { method: 'POST', body: data });
+
+    const res = await createFetchHandlerCaller({
+      router: appRouter,
+      endpoint: '/',
+      req,
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ rows: 2 });
+    expect(onErrorMock).toHaveBeenCalledTimes(0);
+  });
+
+  test('with invalid or too large multipart/form-data', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({
+          openapi: { method: 'POST', path: '/echo', contentTypes: ['multipart/form-data'] },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => ({ name: input.name })),
+    });
+
+    {
+      const req = new Request('https://localhost:3000/echo', {
+        method: 'POST',
+        headers: { 'Content-Type': 'multipart/form-data; boundary=missing' },
+        body: 'name=Lily',
+      });
+
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual(
+        expect.objectContaining({
+          message: 'Failed to parse request body',
+          code: 'PARSE_ERROR',
+        }),
+      );
+    }
+    {
+      const data = new FormData();
+      data.append('name', 'L'.repeat(100));
+
+      const req = new Request('https://localhost:3000/echo', { method: 'POST', body: data });
+
+      const res = await createFetchHandlerCaller({
+        router: appRouter,
+        endpoint: '/',
+        req,
+        maxBodySize: 50,
+      });
+
+      expect(res.status).toBe(413);
+      expect(await res.json()).toEqual(
+        expect.objectContaining({
+          message: 'Request body too large',
+          code: 'PAYLOAD_TOO_LARGE',
+        }),
+      );
+    }
+    expect(createContextMock).toHaveBeenCalledTimes(0);
+    expect(onErrorMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('with streamed response', async () => {
+    const appRouter = t.router({
+      exportCsv: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/export.csv', responseContentType: 'text/csv' } })
+        .input(z.void())
+        .output(z.instanceof(Blob))
+        .query(() => new Blob(['id,name\n1,Lily'])),
+      exportStream: t.procedure
+        .meta({
+          openapi: { method: 'GET', path: '/export.txt', responseContentType: 'text/plain' },
+        })
+        .input(z.void())
+        .output(z.instanceof(ReadableStream))
+        .query(
+          () =>
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode('Hello '));
+                controller.enqueue(new TextEncoder().encode('World'));
+                controller.close();
+              },
+            }),
+        ),
+    });
+
+    {
+      const req = new Request('https://localhost:3000/export.csv', { method: 'GET' });
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/csv');
+      expect(await res.text()).toBe('id,name\n1,Lily');
+    }
+    {
+      const req = new Request('https://localhost:3000/export.txt', { method: 'GET' });
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/plain');
+      expect(await res.text()).toBe('Hello World');
+    }
+  });
+
+  test('with streamed responses and a slow consumer', async () => {
+    let yielded = 0;
+    let closed: () => void;
+    const onClose = new Promise<void>((resolve) => {
+      closed = resolve;
+    });
+
+    const appRouter = t.router({
+      exportUsers: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/users/export',
+            responseContentType: 'application/x-ndjson',
+          },
+        })
+        .input(z.void())
+        .output(zodAsyncIterable(z.object({ id: z.number(), name: z.string() })))
+        .query(async function* () {
+          try {
+            for (let id = 0; ; id++) {
+              await new Promise((resolve) => setImmediate(resolve));
+              yielded++;
+              yield { id, name: 'Lily'.repeat(100) };
+            }
+          } finally {
+            closed();
+          }
+        }),
+    });
+
+    const req = new Request('https://localhost:3000/users/export', { method: 'GET' });
+    const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+    expect(res.status).toBe(200);
+
+    // items are only produced as fast as the body is read
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(yielded).toBeLessThan(100);
+
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    await onClose;
+  });
+
+  test('with streamed responses failing half way', async () => {
+    const UserSchema = z.object({ id: z.number(), name: z.string() });
+    const listInvalidUsers = async function* () {
+      yield { id: 1, name: 'Lily' };
+      // waits for the first item to be sent
+      await new Promise((resolve) => setImmediate(resolve));
+      yield { id: 2 } as any;
+    };
+    const appRouter = t.router({
+      exportUsers: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/users/export',
+            responseContentType: 'application/x-ndjson',
+          },
+        })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        .query(listInvalidUsers),
+      listUsers: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users' } })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        .query(listInvalidUsers),
+    });
+
+    {
+      const req = new Request('https://localhost:3000/users/export', { method: 'GET' });
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(200);
+      const lines = (await res.text()).split('\n');
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[0]!)).toEqual({ id: 1, name: 'Lily' });
+      expect(JSON.parse(lines[1]!)).toMatchObject({
+        error: { message: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' },
+      });
+    }
+    {
+      const req = new Request('https://localhost:3000/users', { method: 'GET' });
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(200);
+      await expect(res.text()).rejects.toThrow('The response was aborted');
+    }
+  });
+
+  test('with subscriptions', async () => {
+    let disconnected: () => void;
+    const onDisconnect = new Promise<void>((resolve) => {
+      disconnected = resolve;
+    });
+
+    const appRouter = t.router({
+      onPrice: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/prices/{symbol}/events' } })
+        .input(z.object({ symbol: z.string() }))
+        .output(zodAsyncIterable(z.object({ symbol: z.string(), price: z.number() })))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .subscription(async function* ({ input }) {
+          yield { symbol: input.symbol, price: 1 };
+          yield tracked('2', { symbol: input.symbol, price: 2 });
+        }),
+      onTick: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/ticks' } })
+        .input(z.void())
+        .output(zodAsyncIterable(z.number()))
+        .subscription(async function* ({ signal }) {
+          try {
+            yield 1;
+            await new Promise((resolve) => signal!.addEventListener('abort', resolve));
+          } finally {
+            disconnected();
+          }
+        }),
+    });
+
+    {
+      const req = new Request('https://localhost:3000/prices/ACME/events', { method: 'GET' });
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(await res.text()).toBe(
+        ': connected\n\n' +
+          'data: {"symbol":"ACME","price":1}\n\n' +
+          'id: 2\ndata: {"symbol":"ACME","price":2}\n\n',
+      );
+    }
+    {
+      const req = new Request('https://localhost:3000/ticks', { method: 'GET' });
+      const res = await createFetchHandlerCaller({ router: appRouter, endpoint: '/', req });
+
+      expect(res.status).toBe(200);
+      await res.body!.cancel();
+
+      await onDisconnect;
+    }
   });
 });
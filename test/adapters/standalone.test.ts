@@ -1,5 +1,5 @@
 import { createTRPCClient, httpBatchLink } from '@trpc/client';
-import { TRPCError, initTRPC } from '@trpc/server';
+import { TRPCError, initTRPC, tracked } from '@trpc/server';
 import { createHTTPHandler } from '@trpc/server/adapters/standalone';
 import { Server } from 'http';
 import fetch from 'node-fetch';
@@ -8,10 +8,16 @@ import { z } from 'zod';
 
 import {
   CreateOpenApiHttpHandlerOptions,
+  OpenApiAuthOptions,
+  OpenApiContext,
+  OpenApiCredential,
   OpenApiErrorResponse,
   OpenApiMeta,
   OpenApiRouter,
   createOpenApiHttpHandler,
+  createProcedureCache,
+  zodAsyncIterable,
+  zodFile,
 } from '../../src';
 import * as zodUtils from '../../src/utils/zod';
 
@@ -34,6 +40,7 @@ const createHttpServerWithRouter = <TRouter extends OpenApiRouter>(
   handlerOpts: CreateOpenApiHttpHandlerOptions<TRouter>,
 ) => {
   const openApiHttpHandler = createOpenApiHttpHandler<TRouter>({
+    ...handlerOpts,
     router: handlerOpts.router,
     createContext: handlerOpts.createContext ?? createContextMock,
     responseMeta: handlerOpts.responseMeta ?? responseMetaMock,
@@ -91,6 +98,30 @@ describe('standalone adapter', () => {
     }).toThrowError('[query.invalidRoute] - Output parser expects a Zod validator');
   });
 
+  test('with component refs', async () => {
+    const appRouter = t.router({
+      listPosts: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/posts',
+            refs: { parameters: ['TraceId'], responses: { 429: 'TooManyRequests' } },
+          },
+        })
+        .input(z.void())
+        .output(z.array(z.string()))
+        .query(() => ['Hello']),
+    });
+
+    // components are only passed to `generateOpenApiDocument`
+    const { url } = createHttpServerWithRouter({ router: appRouter });
+
+    const res = await fetch(`${url}/posts`, { method: 'GET' });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(['Hello']);
+  });
+
   test('with not found path', async () => {
     const appRouter = t.router({
       ping: t.procedure
@@ -130,13 +161,50 @@ describe('standalone adapter', () => {
     const res = await fetch(`${url}/ping`, { method: 'PATCH' });
     const body = (await res.json()) as OpenApiErrorResponse;
 
-    expect(res.status).toBe(404);
-    expect(body).toEqual(expect.objectContaining({ message: 'Not found', code: 'NOT_FOUND' }));
+    expect(res.status).toBe(405);
+    expect(res.headers.get('Allow')).toBe('POST, OPTIONS');
+    expect(body).toEqual(
+      expect.objectContaining({ message: 'Method not supported', code: 'METHOD_NOT_SUPPORTED' }),
+    );
     expect(createContextMock).toHaveBeenCalledTimes(0);
     expect(responseMetaMock).toHaveBeenCalledTimes(1);
     expect(onErrorMock).toHaveBeenCalledTimes(1);
   });
 
+  test('with not found method on path parameters', async () => {
+    const appRouter = t.router({
+      getPost: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/posts/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => ({ id: input.id })),
+      updatePost: t.procedure
+        .meta({ openapi: { method: 'PATCH', path: '/posts/{postId}' } })
+        .input(z.object({ postId: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .mutation(({ input }) => ({ id: input.postId })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/posts/42`, { method: 'DELETE' });
+      const body = (await res.json()) as OpenApiErrorResponse;
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('Allow')).toBe('GET, HEAD, PATCH, OPTIONS');
+      expect(body).toEqual(expect.objectContaining({ code: 'METHOD_NOT_SUPPORTED' }));
+    }
+    {
+      const res = await fetch(`${url}/posts/42/comments`, { method: 'DELETE' });
+
+      expect(res.status).toBe(404);
+      expect(res.headers.get('Allow')).toBeNull();
+    }
+  });
+
   test('with missing content-type header', async () => {
     const appRouter = t.router({
       echo: t.procedure
@@ -477,6 +545,61 @@ describe('standalone adapter', () => {
     expect(onErrorMock).toHaveBeenCalledTimes(0);
   });
 
+  test('with class-based createContext', async () => {
+    class Context {
+      constructor(private readonly userId: string) {}
+
+      get isAdmin() {
+        return this.userId === 'admin';
+      }
+
+      getUserId() {
+        return this.userId;
+      }
+    }
+
+    const t2 = initTRPC.meta<OpenApiMeta>().context<Context>().create();
+    let createdCtx: Context | undefined;
+
+    const appRouter = t2.router({
+      whoami: t2.procedure
+        .meta({ openapi: { method: 'GET', path: '/whoami' } })
+        .input(z.void())
+        .output(z.object({ userId: z.string(), isAdmin: z.boolean(), isCreated: z.boolean() }))
+        .query(({ ctx }) => ({
+          userId: ctx.getUserId(),
+          isAdmin: ctx.isAdmin,
+          isCreated: ctx === createdCtx,
+        })),
+    });
+
+    {
+      const { url, close } = createHttpServerWithRouter({
+        createContext: () => (createdCtx = new Context('admin')),
+        router: appRouter,
+      });
+
+      const res = await fetch(`${url}/whoami`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ userId: 'admin', isAdmin: true, isCreated: true });
+      close();
+    }
+    {
+      const { url } = createHttpServerWithRouter({
+        // frozen contexts are copied to add the response control
+        createContext: () =>
+          Object.freeze({ getUserId: () => 'lily', isAdmin: false }) as unknown as Context,
+        router: appRouter,
+      });
+
+      const res = await fetch(`${url}/whoami`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ userId: 'lily', isAdmin: false, isCreated: false });
+    }
+  });
+
   test('with responseMeta', async () => {
     const appRouter = t.router({
       echo: t.procedure
@@ -538,6 +661,7 @@ describe('standalone adapter', () => {
 
     const { url } = createHttpServerWithRouter({
       router: appRouter,
+      warmup: true,
     });
 
     const res = await fetch(`${url}/any-endpoint`, { method: 'HEAD' });
@@ -548,6 +672,166 @@ describe('standalone adapter', () => {
     expect(onErrorMock).toHaveBeenCalledTimes(0);
   });
 
+  test('with HEAD request', async () => {
+    const appRouter = t.router({
+      sayHello: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/say-hello' } })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ greeting: z.string() }))
+        .query(({ input }) => ({ greeting: `Hello ${input.name}!` })),
+    });
+
+    {
+      const { url } = createHttpServerWithRouter({
+        router: appRouter,
+      });
+
+      const res = await fetch(`${url}/say-hello?name=Lily`, { method: 'HEAD' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('application/json');
+      expect(await res.text()).toBe('');
+      expect(createContextMock).toHaveBeenCalledTimes(1);
+      expect(responseMetaMock).toHaveBeenCalledTimes(1);
+      expect(onErrorMock).toHaveBeenCalledTimes(0);
+
+      clearMocks();
+      server.close();
+    }
+    {
+      const { url } = createHttpServerWithRouter({
+        router: appRouter,
+        autoHead: false,
+      });
+
+      const res = await fetch(`${url}/say-hello?name=Lily`, { method: 'HEAD' });
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('Allow')).toBe('GET, OPTIONS');
+      expect(createContextMock).toHaveBeenCalledTimes(0);
+    }
+  });
+
+  test('with OPTIONS request', async () => {
+    const appRouter = t.router({
+      getPost: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/posts/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => ({ id: input.id })),
+      deletePost: t.procedure
+        .meta({ openapi: { method: 'DELETE', path: '/posts/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .mutation(({ input }) => ({ id: input.id })),
+    });
+
+    {
+      const { url } = createHttpServerWithRouter({
+        router: appRouter,
+      });
+
+      const res = await fetch(`${url}/posts/42`, { method: 'OPTIONS' });
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Allow')).toBe('GET, HEAD, DELETE, OPTIONS');
+      expect(createContextMock).toHaveBeenCalledTimes(0);
+      expect(responseMetaMock).toHaveBeenCalledTimes(0);
+      expect(onErrorMock).toHaveBeenCalledTimes(0);
+
+      const notFoundRes = await fetch(`${url}/comments/42`, { method: 'OPTIONS' });
+
+      expect(notFoundRes.status).toBe(404);
+
+      server.close();
+    }
+    {
+      const { url } = createHttpServerWithRouter({
+        router: appRouter,
+        autoOptions: false,
+      });
+
+      const res = await fetch(`${url}/posts/42`, { method: 'OPTIONS' });
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('Allow')).toBe('GET, HEAD, DELETE');
+    }
+  });
+
+  test('with cors', async () => {
+    const appRouter = t.router({
+      getPost: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/posts/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => ({ id: input.id })),
+      deletePost: t.procedure
+        .meta({ openapi: { method: 'DELETE', path: '/posts/{id}', cors: { maxAge: 600 } } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .mutation(({ input }) => ({ id: input.id })),
+      internal: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/internal', cors: false } })
+        .input(z.void())
+        .output(z.literal('ok'))
+        .query(() => 'ok' as const),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      cors: { origin: ['https://example.com'], credentials: true, exposedHeaders: ['X-Total'] },
+    });
+
+    {
+      const res = await fetch(`${url}/posts/42`, {
+        method: 'OPTIONS',
+        headers: {
+          Origin: 'https://example.com',
+          'Access-Control-Request-Method': 'DELETE',
+          'Access-Control-Request-Headers': 'Authorization',
+        },
+      });
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBe('https://example.com');
+      expect(res.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+      expect(res.headers.get('Access-Control-Allow-Methods')).toBe('GET, HEAD, DELETE, OPTIONS');
+      expect(res.headers.get('Access-Control-Allow-Headers')).toBe('Authorization');
+      expect(res.headers.get('Access-Control-Max-Age')).toBe('600');
+      expect(res.headers.get('Vary')).toBe('Origin');
+      expect(createContextMock).toHaveBeenCalledTimes(0);
+    }
+    {
+      const res = await fetch(`${url}/posts/42`, {
+        method: 'GET',
+        headers: { Origin: 'https://example.com' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBe('https://example.com');
+      expect(res.headers.get('Access-Control-Expose-Headers')).toBe('X-Total');
+    }
+    {
+      const res = await fetch(`${url}/posts/42`, {
+        method: 'GET',
+        headers: { Origin: 'https://evil.com' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    }
+    {
+      const res = await fetch(`${url}/internal`, {
+        method: 'OPTIONS',
+        headers: { Origin: 'https://example.com', 'Access-Control-Request-Method': 'GET' },
+      });
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Access-Control-Allow-Origin')).toBeNull();
+      expect(res.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+    }
+  });
+
   test('with invalid json', async () => {
     const appRouter = t.router({
       echo: t.procedure
@@ -569,11 +853,11 @@ describe('standalone adapter', () => {
     });
     const body = (await res.json()) as OpenApiErrorResponse;
 
-    expect(res.status).toBe(500);
+    expect(res.status).toBe(400);
     expect(body).toEqual(
       expect.objectContaining({
-        message: 'Internal server error',
-        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to parse request body',
+        code: 'PARSE_ERROR',
       }),
     );
     expect(createContextMock).toHaveBeenCalledTimes(0);
@@ -815,6 +1099,85 @@ describe('standalone adapter', () => {
     }
   });
 
+  test('with static segments preferred over path parameters', async () => {
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => ({ id: input.id })),
+      getMe: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/me' } })
+        .input(z.void())
+        .output(z.object({ id: z.string() }))
+        .query(() => ({ id: 'me' })),
+      getUserFriends: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}/friends' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => ({ id: `friends of ${input.id}` })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/users/me`, { method: 'GET' });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body).toEqual({ id: 'me' });
+    }
+    {
+      const res = await fetch(`${url}/users/42`, { method: 'GET' });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body).toEqual({ id: '42' });
+    }
+    {
+      const res = await fetch(`${url}/users/me/friends`, { method: 'GET' });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body).toEqual({ id: 'friends of me' });
+    }
+  });
+
+  test('with procedure cache diagnostics', () => {
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => ({ id: input.id })),
+    });
+
+    const getProcedure = createProcedureCache(appRouter);
+
+    expect(getProcedure('GET', '/users/42')).toEqual({
+      procedure: expect.objectContaining({ path: 'getUser' }),
+      pathInput: { id: '42' },
+    });
+    expect(getProcedure.explain('GET', '/users/42')).toEqual({
+      method: 'GET',
+      path: '/users/42',
+      route: '/users/{id}',
+      params: { id: '42' },
+      steps: [
+        { segment: 'users', kind: 'static', candidate: 'users', matched: true },
+        { segment: '42', kind: 'static', candidate: '42', matched: false },
+        { segment: '42', kind: 'param', candidate: '{}', matched: true },
+      ],
+    });
+    expect(getProcedure.explain('GET', '/posts/42')).toEqual({
+      method: 'GET',
+      path: '/posts/42',
+      steps: [{ segment: 'posts', kind: 'static', candidate: 'posts', matched: false }],
+    });
+  });
+
   test('with bad output', async () => {
     const appRouter = t.router({
       badOutput: t.procedure
@@ -1339,10 +1702,1171 @@ describe('standalone adapter', () => {
     });
     const body = await res.json();
 
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ result: 'Hello World' });
+    expect(createContextMock).toHaveBeenCalledTimes(1);
+    expect(responseMetaMock).toHaveBeenCalledTimes(1);
+    expect(onErrorMock).toHaveBeenCalledTimes(0);
+  });
+
+  test('with x-www-form-urlencoded inherited keys', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/echo',
+            contentTypes: ['application/x-www-form-urlencoded'],
+          },
+        })
+        .input(z.object({ toString: z.string() }))
+        .output(z.object({ toString: z.string() }))
+        .mutation(({ input }) => input),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    const res = await fetch(`${url}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'toString=Lily',
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ toString: 'Lily' });
+  });
+
+  test('with undeclared content-type', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/echo',
+            contentTypes: ['application/x-www-form-urlencoded'],
+          },
+        })
+        .input(z.object({ payload: z.string() }))
+        .output(z.object({ payload: z.string() }))
+        .mutation(({ input }) => ({ payload: input.payload })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    const res = await fetch(`${url}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ payload: 'Lily' }),
+    });
+    const body = (await res.json()) as OpenApiErrorResponse;
+
     expect(res.status).toBe(415);
-    expect(body).toEqual(expect.objectContaining({ code: 'UNSUPPORTED_MEDIA_TYPE' }));
+    expect(body).toEqual(
+      expect.objectContaining({
+        message: 'Unsupported content-type "application/json',
+        code: 'UNSUPPORTED_MEDIA_TYPE',
+      }),
+    );
     expect(createContextMock).toHaveBeenCalledTimes(0);
-    expect(responseMetaMock).toHaveBeenCalledTimes(1);
-    expect(onErrorMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('with multipart/form-data', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({
+          openapi: { method: 'POST', path: '/echo', contentTypes: ['multipart/form-data'] },
+        })
+        .input(z.object({ name: z.string(), age: z.number(), tags: z.array(z.string()) }))
+        .output(z.object({ result: z.string() }))
+        .mutation(({ input }) => ({
+          result: `${input.name} (${input.age}): ${input.tags.join(', ')}`,
+        })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    const data = new FormData();
+    data.append('name', 'Lily');
+    data.append('age', '30');
+    data.append('tags', 'admin');
+    const req = new Request(`${url}/echo`, { method: 'POST', body: data });
+
+    const res = await fetch(`${url}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': req.headers.get('Content-Type')! },
+      body: Buffer.from(await req.arrayBuffer()),
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ result: 'Lily (30): admin' });
+    expect(onErrorMock).toHaveBeenCalledTimes(0);
+  });
+
+  test('with text/plain', async () => {
+    const appRouter = t.router({
+      count: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/count', contentTypes: ['text/plain'] } })
+        .input(z.string())
+        .output(z.object({ length: z.number() }))
+        .mutation(({ input }) => ({ length: input.length })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    const res = await fetch(`${url}/count`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      body: 'Hello World',
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ length: 11 });
+  });
+
+  test('with custom body parser', async () => {
+    const appRouter = t.router({
+      echo: t.procedure
+        .meta({
+          openapi: { method: 'POST', path: '/echo', contentTypes: ['application/vnd.csv'] },
+        })
+        .input(z.object({ rows: z.array(z.array(z.string())) }))
+        .output(z.object({ rows: z.number() }))
+        .mutation(({ input }) => ({ rows: input.rows.length })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      bodyParsers: {
+        'application/vnd.csv': async (body) => ({
+          rows: (await body.text()).split('\n').map((row) => row.split(',')),
+        }),
+      },
+    });
+
+    const res = await fetch(`${url}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/vnd.csv' },
+      body: 'a,b\nc,d',
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ rows: 2 });
+  });
+
+  test('with file upload', async () => {
+    const appRouter = t.router({
+      uploadAvatar: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/users/{id}/avatar' } })
+        .input(z.object({ id: z.string(), avatar: zodFile({ mimeTypes: ['image/png'] }) }))
+        .output(z.object({ id: z.string(), name: z.string(), content: z.string() }))
+        .mutation(async ({ input }) => ({
+          id: input.id,
+          name: input.avatar.name,
+          content: await input.avatar.text(),
+        })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      maxFileSize: 10,
+    });
+
+    const upload = async (file: File) => {
+      const data = new FormData();
+      data.append('avatar', file);
+      const req = new Request(`${url}/users/42/avatar`, { method: 'POST', body: data });
+      return fetch(`${url}/users/42/avatar`, {
+        method: 'POST',
+        headers: { 'Content-Type': req.headers.get('Content-Type')! },
+        body: Buffer.from(await req.arrayBuffer()),
+      });
+    };
+
+    {
+      const res = await upload(new File(['image'], 'avatar.png', { type: 'image/png' }));
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body).toEqual({ id: '42', name: 'avatar.png', content: 'image' });
+    }
+    {
+      const res = await upload(new File(['image'], 'avatar.gif', { type: 'image/gif' }));
+      const body = (await res.json()) as OpenApiErrorResponse;
+
+      expect(res.status).toBe(400);
+      expect(body.issues).toEqual([
+        expect.objectContaining({ message: 'File type must be one of image/png' }),
+      ]);
+    }
+    {
+      const res = await upload(new File(['large image'], 'avatar.png', { type: 'image/png' }));
+      const body = (await res.json()) as OpenApiErrorResponse;
+
+      expect(res.status).toBe(413);
+      expect(body).toEqual(
+        expect.objectContaining({ message: 'Uploaded file too large', code: 'PAYLOAD_TOO_LARGE' }),
+      );
+    }
+  });
+
+  test('with non-json responses', async () => {
+    const appRouter = t.router({
+      exportCsv: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/export.csv', responseContentType: 'text/csv' } })
+        .input(z.void())
+        .output(z.string())
+        .query(() => 'id,name\n1,Lily'),
+      exportPdf: t.procedure
+        .meta({
+          openapi: { method: 'GET', path: '/export.pdf', responseContentType: 'application/pdf' },
+        })
+        .input(z.void())
+        .output(z.instanceof(Buffer))
+        .query(() => Buffer.from('%PDF-1.7')),
+      exportStream: t.procedure
+        .meta({
+          openapi: { method: 'GET', path: '/export.txt', responseContentType: 'text/plain' },
+        })
+        .input(z.void())
+        .output(z.instanceof(ReadableStream))
+        .query(
+          () =>
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode('Hello '));
+                controller.enqueue(new TextEncoder().encode('World'));
+                controller.close();
+              },
+            }),
+        ),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      responseMeta: () => ({ headers: { 'Content-Disposition': 'attachment' } }),
+    });
+
+    {
+      const res = await fetch(`${url}/export.csv`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/csv');
+      expect(res.headers.get('Content-Disposition')).toBe('attachment');
+      expect(await res.text()).toBe('id,name\n1,Lily');
+    }
+    {
+      const res = await fetch(`${url}/export.pdf`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('application/pdf');
+      expect(Buffer.from(await res.arrayBuffer()).toString()).toBe('%PDF-1.7');
+    }
+    {
+      const res = await fetch(`${url}/export.txt`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/plain');
+      expect(await res.text()).toBe('Hello World');
+    }
+  });
+
+  test('with success status', async () => {
+    const appRouter = t.router({
+      createPost: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/posts', successStatus: 201 } })
+        .input(z.object({ title: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .mutation(() => ({ id: '42' })),
+      deletePost: t.procedure
+        .meta({ openapi: { method: 'DELETE', path: '/posts/{id}', successStatus: 204 } })
+        .input(z.object({ id: z.string() }))
+        .output(z.void())
+        .mutation(() => undefined),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/posts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Hello' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ id: '42' });
+    }
+    {
+      const res = await fetch(`${url}/posts/42`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('Content-Type')).toBeNull();
+      expect(await res.text()).toBe('');
+    }
+  });
+
+  test('with response control', async () => {
+    const tc = initTRPC.meta<OpenApiMeta>().context<OpenApiContext>().create();
+    const appRouter = tc.router({
+      login: tc.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/login',
+            responseHeaders: z.object({ 'X-Request-Id': z.string() }).passthrough(),
+          },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input, ctx }) => {
+          ctx.openApiResponse?.setStatus(201);
+          ctx.openApiResponse?.setHeader('X-Request-Id', 'abc');
+          ctx.openApiResponse?.setCookie('session', 'a b', { httpOnly: true, path: '/' });
+          ctx.openApiResponse?.setCookie('theme', 'dark', { maxAge: 60, sameSite: 'Lax' });
+          return { name: input.name };
+        }),
+      invalidHeaders: tc.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/invalid-headers',
+            responseHeaders: z.object({ 'X-Count': z.string().regex(/^\d+$/) }),
+          },
+        })
+        .input(z.void())
+        .output(z.void())
+        .query(({ ctx }) => {
+          ctx.openApiResponse?.setHeader('X-Count', 'many');
+        }),
+      redirect: tc.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/redirect',
+            responseHeaders: z.object({ Location: z.string().url() }),
+          },
+        })
+        .input(z.void())
+        .output(z.void())
+        .query(({ ctx }) => {
+          ctx.openApiResponse?.setStatus(201);
+          ctx.openApiResponse?.setHeader('location', 'https://example.com/users/1');
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'James' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ name: 'James' });
+      expect(res.headers.get('X-Request-Id')).toBe('abc');
+      expect(res.headers.raw()['set-cookie']).toEqual([
+        'session=a%20b; Path=/; HttpOnly',
+        'theme=dark; Max-Age=60; SameSite=Lax',
+      ]);
+    }
+    {
+      const res = await fetch(`${url}/invalid-headers`, { method: 'GET' });
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toMatchObject({
+        message: 'Response headers validation failed',
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+      expect(res.headers.get('X-Count')).toBeNull();
+    }
+    {
+      const res = await fetch(`${url}/redirect`, { method: 'GET' });
+
+      expect(res.status).toBe(201);
+      expect(res.headers.get('Location')).toBe('https://example.com/users/1');
+    }
+  });
+
+  test('with array query params', async () => {
+    const appRouter = t.router({
+      search: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/search' } })
+        .input(
+          z.object({
+            ids: z.array(z.number()),
+            flags: z.array(z.boolean()).optional(),
+            tags: z
+              .array(z.string())
+              .optional()
+              .openapi({ param: { explode: false } }),
+          }),
+        )
+        .output(
+          z.object({
+            ids: z.array(z.number()),
+            flags: z.array(z.boolean()).optional(),
+            tags: z.array(z.string()).optional(),
+          }),
+        )
+        .query(({ input }) => input),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/search?ids=1&ids=2&flags=true&tags=a,b`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ ids: [1, 2], flags: [true], tags: ['a', 'b'] });
+    }
+    {
+      const res = await fetch(`${url}/search?ids=3`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ ids: [3] });
+    }
+  });
+
+  test('with deepObject query params', async () => {
+    const appRouter = t.router({
+      listIssues: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/issues' } })
+        .input(
+          z.object({
+            filter: z
+              .object({ status: z.enum(['open', 'closed']), minVotes: z.number() })
+              .partial()
+              .optional(),
+          }),
+        )
+        .output(z.object({ filter: z.any() }))
+        .query(({ input }) => ({ filter: input.filter })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/issues?filter[status]=open&filter[minVotes]=3`, {
+        method: 'GET',
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ filter: { status: 'open', minVotes: 3 } });
+    }
+    {
+      const res = await fetch(`${url}/issues?filter[status]=pending`, { method: 'GET' });
+
+      expect(res.status).toBe(400);
+    }
+  });
+
+  test('with prototype keys in deepObject query params', async () => {
+    const appRouter = t.router({
+      listIssues: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/issues' } })
+        .input(z.object({ filter: z.object({ status: z.string() }).partial().optional() }))
+        .output(z.object({ filter: z.any() }))
+        .query(({ input }) => ({ filter: input.filter })),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    for (const query of [
+      '__proto__[polluted]=yes',
+      'filter[__proto__][polluted]=yes',
+      'constructor[prototype][polluted]=yes',
+    ]) {
+      const res = await fetch(`${url}/issues?${query}`, { method: 'GET' });
+
+      expect(res.status).toBe(400);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    }
+  });
+
+  test('with header & cookie inputs', async () => {
+    const appRouter = t.router({
+      getPost: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/posts/{id}',
+            inputHeaders: { tenantId: 'X-Tenant-Id' },
+            inputCookies: { session: 'sid' },
+          },
+        })
+        .input(z.object({ id: z.string(), tenantId: z.number(), session: z.string().optional() }))
+        .output(z.object({ id: z.string(), tenantId: z.number(), session: z.string().optional() }))
+        .query(({ input }) => input),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/posts/1`, {
+        method: 'GET',
+        headers: { 'X-Tenant-Id': '42', Cookie: 'theme=dark; sid=a%20b' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: '1', tenantId: 42, session: 'a b' });
+    }
+    {
+      const res = await fetch(`${url}/posts/1?tenantId=42`, { method: 'GET' });
+
+      expect(res.status).toBe(400);
+    }
+  });
+
+  test('with auth', async () => {
+    const tc = initTRPC.meta<OpenApiMeta>().context<OpenApiContext<{ id: string }>>().create();
+    const appRouter = tc.router({
+      me: tc.procedure
+        .meta({ openapi: { method: 'GET', path: '/me' } })
+        .input(z.void())
+        .output(z.object({ id: z.string(), scheme: z.string() }))
+        .query(({ ctx }) => ({
+          id: ctx.openApiAuth!.principal.id,
+          scheme: ctx.openApiAuth!.scheme,
+        })),
+      ping: tc.procedure
+        .meta({ openapi: { method: 'GET', path: '/ping', protect: false } })
+        .input(z.void())
+        .output(z.literal('pong'))
+        .query(() => 'pong' as const),
+    });
+
+    const verifyMock = jest.fn(({ credential }: { credential: OpenApiCredential }) => {
+      if (credential.type === 'bearer') {
+        return credential.token === 'secret' ? { id: 'bearer-user' } : undefined;
+      }
+      if (credential.type === 'basic') {
+        return credential.password === 'hunter2' ? { id: credential.username } : undefined;
+      }
+      return credential.key === 'key' ? { id: 'api-key-user' } : undefined;
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      auth: {
+        securitySchemes: {
+          Bearer: { type: 'http', scheme: 'bearer' },
+          Basic: { type: 'http', scheme: 'basic' },
+          ApiKey: { type: 'apiKey', in: 'query', name: 'api_key' },
+        },
+        verify: verifyMock,
+      },
+    });
+
+    {
+      const res = await fetch(`${url}/me`, { method: 'GET' });
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('WWW-Authenticate')).toBe('Bearer, Basic');
+      expect(await res.json()).toMatchObject({ message: 'Unauthorized', code: 'UNAUTHORIZED' });
+      expect(verifyMock).toHaveBeenCalledTimes(0);
+      expect(createContextMock).toHaveBeenCalledTimes(0);
+    }
+    {
+      const res = await fetch(`${url}/me`, {
+        method: 'GET',
+        headers: { Authorization: 'Bearer wrong' },
+      });
+
+      expect(res.status).toBe(401);
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+    }
+    {
+      const res = await fetch(`${url}/me`, {
+        method: 'GET',
+        headers: { Authorization: 'Bearer secret' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: 'bearer-user', scheme: 'Bearer' });
+    }
+    {
+      const res = await fetch(`${url}/me`, {
+        method: 'GET',
+        headers: { Authorization: `Basic ${Buffer.from('lily:hunter2').toString('base64')}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: 'lily', scheme: 'Basic' });
+    }
+    {
+      const res = await fetch(`${url}/me?api_key=key`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: 'api-key-user', scheme: 'ApiKey' });
+    }
+    {
+      verifyMock.mockClear();
+      const res = await fetch(`${url}/ping`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toBe('pong');
+      expect(verifyMock).toHaveBeenCalledTimes(0);
+    }
+  });
+
+  test('with documented security requirements', async () => {
+    const appRouter = t.router({
+      listPosts: t.procedure
+        .meta({
+          openapi: { method: 'GET', path: '/posts', security: [{ OAuth2: ['posts:read'] }] },
+        })
+        .input(z.void())
+        .output(z.array(z.string()))
+        .query(() => ['Hello']),
+    });
+
+    // without `auth` the security requirements are only documented
+    const { url } = createHttpServerWithRouter({ router: appRouter });
+
+    const res = await fetch(`${url}/posts`, { method: 'GET' });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(['Hello']);
+
+    expect(() => {
+      createOpenApiHttpHandler({
+        router: appRouter,
+        auth: { verify: () => ({}) },
+      });
+    }).toThrowError('[query.listPosts] - Security scheme "OAuth2" is not defined');
+  });
+
+  test('with auth security requirements', async () => {
+    const tc = initTRPC.meta<OpenApiMeta>().context<OpenApiContext<{ id: string }>>().create();
+    const appRouter = tc.router({
+      createPost: tc.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/posts',
+            security: [{ Bearer: ['posts:write'] }, { ApiKey: [], Tenant: [] }],
+          },
+        })
+        .input(z.object({ title: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .mutation(({ ctx }) => ({ id: ctx.openApiAuth!.principal.id })),
+      listPosts: tc.procedure
+        .meta({ openapi: { method: 'GET', path: '/posts', security: [] } })
+        .input(z.void())
+        .output(z.array(z.string()))
+        .query(() => []),
+    });
+
+    const auth: OpenApiAuthOptions<{ id: string }> = {
+      securitySchemes: {
+        Bearer: { type: 'http', scheme: 'bearer' },
+        ApiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' },
+        Tenant: { type: 'apiKey', in: 'cookie', name: 'tenant' },
+      },
+      verify: ({ credential }) =>
+        credential.type === 'bearer'
+          ? { id: credential.token }
+          : credential.type === 'apiKey'
+            ? { id: credential.key }
+            : undefined,
+      getScopes: ({ principal }) => (principal.id === 'writer' ? ['posts:write'] : []),
+    };
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      auth,
+    });
+
+    const createPost = (headers: Record<string, string>) =>
+      fetch(`${url}/posts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ title: 'Hello' }),
+      });
+
+    {
+      const res = await createPost({ Authorization: 'Bearer writer' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: 'writer' });
+    }
+    {
+      const res = await createPost({ Authorization: 'Bearer reader' });
+
+      expect(res.status).toBe(403);
+      expect(await res.json()).toMatchObject({ message: 'Insufficient scope', code: 'FORBIDDEN' });
+    }
+    {
+      const res = await createPost({ 'X-Api-Key': 'service' });
+
+      expect(res.status).toBe(401);
+    }
+    {
+      const res = await createPost({ 'X-Api-Key': 'service', Cookie: 'tenant=acme' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: 'service' });
+    }
+    {
+      const res = await fetch(`${url}/posts`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+    }
+  });
+
+  test('with error data schemas', async () => {
+    const tc = initTRPC
+      .meta<OpenApiMeta>()
+      .context<any>()
+      .create({
+        errorFormatter: ({ shape, error }) => ({
+          ...shape,
+          data: { ...shape.data, retryAfter: error.code === 'TOO_MANY_REQUESTS' ? 30 : undefined },
+        }),
+      });
+    const appRouter = tc.router({
+      createUser: tc.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/users',
+            errorResponses: {
+              409: { description: 'User exists', data: z.object({ ids: z.array(z.string()) }) },
+              429: { data: z.object({ retryAfter: z.number() }) },
+            },
+          },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => {
+          if (input.name === 'James') {
+            throw new TRPCError({
+              code: 'CONFLICT',
+              message: 'User already exists',
+              cause: Object.assign(new Error('Duplicate'), { ids: ['usr_1'], secret: 'x' }),
+            });
+          }
+          throw new TRPCError({ code: 'TOO_MANY_REQUESTS' });
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'James' }),
+      });
+
+      expect(res.status).toBe(409);
+      expect(await res.json()).toEqual({
+        message: 'User already exists',
+        code: 'CONFLICT',
+        data: { ids: ['usr_1'] },
+      });
+    }
+    {
+      const res = await fetch(`${url}/users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Lily' }),
+      });
+
+      expect(res.status).toBe(429);
+      expect(await res.json()).toEqual({
+        message: 'TOO_MANY_REQUESTS',
+        code: 'TOO_MANY_REQUESTS',
+        data: { retryAfter: 30 },
+      });
+    }
+  });
+
+  test('with problem details errors', async () => {
+    const appRouter = t.router({
+      createUser: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/users',
+            errorResponses: {
+              409: { data: z.object({ ids: z.array(z.string()) }) },
+            },
+          },
+        })
+        .input(z.object({ name: z.string().min(1) }))
+        .output(z.object({ name: z.string() }))
+        .mutation(() => {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'User already exists',
+            cause: Object.assign(new Error('Duplicate'), { ids: ['usr_1'] }),
+          });
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      errorFormat: 'problem',
+    });
+
+    {
+      const res = await fetch(`${url}/users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'James' }),
+      });
+
+      expect(res.status).toBe(409);
+      expect(res.headers.get('content-type')).toBe('application/problem+json');
+      expect(await res.json()).toEqual({
+        type: 'about:blank',
+        title: 'Conflict',
+        status: 409,
+        detail: 'User already exists',
+        instance: '/users',
+        code: 'CONFLICT',
+        data: { ids: ['usr_1'] },
+      });
+    }
+    {
+      const res = await fetch(`${url}/users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: '' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        type: 'about:blank',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Input validation failed',
+        instance: '/users',
+        code: 'BAD_REQUEST',
+        issues: [{ code: 'too_small', path: ['name'] }],
+      });
+    }
+    {
+      const res = await fetch(`${url}/unknown`, { method: 'GET' });
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toMatchObject({ status: 404, instance: '/unknown' });
+    }
+  });
+
+  test('with custom error codes', async () => {
+    class NotFoundError extends Error {}
+    class PaymentRequiredError extends Error {}
+
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => {
+          if (input.id === 'premium') {
+            throw new PaymentRequiredError('Upgrade to read this user');
+          }
+          throw new NotFoundError(`User ${input.id} not found`);
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+      errorCodes: {
+        NOT_FOUND: { status: 404, errors: [NotFoundError] },
+        PAYMENT_REQUIRED: {
+          status: 402,
+          message: 'Payment required',
+          errors: [PaymentRequiredError],
+        },
+      },
+    });
+
+    {
+      const res = await fetch(`${url}/users/usr_1`, { method: 'GET' });
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toMatchObject({
+        message: 'User usr_1 not found',
+        code: 'NOT_FOUND',
+        data: { code: 'NOT_FOUND', httpStatus: 404 },
+      });
+    }
+    {
+      const res = await fetch(`${url}/users/premium`, { method: 'GET' });
+
+      expect(res.status).toBe(402);
+      expect(await res.json()).toMatchObject({
+        message: 'Upgrade to read this user',
+        code: 'PAYMENT_REQUIRED',
+        data: { code: 'PAYMENT_REQUIRED', httpStatus: 402, path: 'getUser' },
+      });
+      expect(onErrorMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          error: expect.objectContaining({ code: 'PAYMENT_REQUIRED' }),
+        }),
+      );
+      expect(responseMetaMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          errors: [expect.objectContaining({ code: 'PAYMENT_REQUIRED' })],
+        }),
+      );
+    }
+  });
+
+  test('with subscriptions', async () => {
+    let disconnected: () => void;
+    const onDisconnect = new Promise<void>((resolve) => {
+      disconnected = resolve;
+    });
+
+    const appRouter = t.router({
+      onPrice: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/prices/{symbol}/events' } })
+        .input(z.object({ symbol: z.string(), lastEventId: z.string().optional() }))
+        .output(zodAsyncIterable(z.object({ symbol: z.string(), price: z.number() })))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .subscription(async function* ({ input }) {
+          const start = Number(input.lastEventId ?? 0);
+          yield { symbol: input.symbol, price: 1 };
+          yield tracked(String(start + 1), { symbol: input.symbol, price: 2 });
+          if (input.symbol === 'FAIL') {
+            throw new TRPCError({ code: 'CONFLICT', message: 'Market closed' });
+          }
+        }),
+      onTick: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/ticks' } })
+        .input(z.void())
+        .output(zodAsyncIterable(z.number()))
+        .subscription(async function* ({ signal }) {
+          try {
+            yield 1;
+            await new Promise((resolve) => signal!.addEventListener('abort', resolve));
+          } finally {
+            disconnected();
+          }
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/prices/ACME/events`, {
+        method: 'GET',
+        headers: { 'Last-Event-ID': '41' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(res.headers.get('Cache-Control')).toBe('no-cache');
+      expect(await res.text()).toBe(
+        ': connected\n\n' +
+          'data: {"symbol":"ACME","price":1}\n\n' +
+          'id: 42\ndata: {"symbol":"ACME","price":2}\n\n',
+      );
+    }
+    {
+      const res = await fetch(`${url}/prices/FAIL/events`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toMatch(
+        /id: 1\ndata: {"symbol":"FAIL","price":2}\n\nevent: error\ndata: {.*"message":"Market closed","code":"CONFLICT".*}\n\n$/,
+      );
+      expect(onErrorMock).toHaveBeenCalledTimes(1);
+    }
+    {
+      const controller = new AbortController();
+      const res = await fetch(`${url}/ticks`, { method: 'GET', signal: controller.signal as any });
+      const reader = res.body as unknown as AsyncIterable<Buffer>;
+      for await (const chunk of reader) {
+        if (chunk.toString().includes('data: 1')) {
+          break;
+        }
+      }
+      controller.abort();
+
+      await onDisconnect;
+    }
+  });
+
+  test('with streamed responses', async () => {
+    const UserSchema = z.object({ id: z.number(), name: z.string() });
+    const appRouter = t.router({
+      exportUsers: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/users/export',
+            responseContentType: 'application/x-ndjson',
+          },
+        })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          yield { id: 1, name: 'Lily' };
+          yield { id: 2, name: 'James' };
+        }),
+      listUsers: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users' } })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          yield { id: 1, name: 'Lily' };
+          yield { id: 2, name: 'James' };
+        }),
+      listInvalidUsers: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/invalid' } })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          yield { id: 1, name: 'Lily' };
+          yield { id: 2 } as any;
+        }),
+      exportInvalidUsers: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/users/export/invalid',
+            responseContentType: 'application/x-ndjson',
+          },
+        })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          yield { id: 1, name: 'Lily' };
+          yield { id: 2 } as any;
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    {
+      const res = await fetch(`${url}/users/export`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('application/x-ndjson');
+      expect(await res.text()).toBe('{"id":1,"name":"Lily"}\n{"id":2,"name":"James"}\n');
+    }
+    {
+      const res = await fetch(`${url}/users`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('application/json');
+      expect(await res.json()).toEqual([
+        { id: 1, name: 'Lily' },
+        { id: 2, name: 'James' },
+      ]);
+    }
+    {
+      const res = await fetch(`${url}/users`, { method: 'HEAD' });
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe('');
+    }
+    {
+      // the response has already started once an item fails validation, so it is aborted
+      await expect(
+        fetch(`${url}/users/invalid`, { method: 'GET' }).then((res) => res.text()),
+      ).rejects.toThrow();
+      expect(onErrorMock).toHaveBeenCalledTimes(1);
+    }
+    {
+      const res = await fetch(`${url}/users/export/invalid`, { method: 'GET' });
+
+      expect(res.status).toBe(200);
+      const lines = (await res.text()).split('\n');
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[0]!)).toEqual({ id: 1, name: 'Lily' });
+      expect(JSON.parse(lines[1]!)).toMatchObject({
+        error: { message: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' },
+      });
+      expect(lines[2]).toBe('');
+      expect(onErrorMock).toHaveBeenCalledTimes(2);
+    }
+  });
+
+  test('with streamed responses to a disconnected client', async () => {
+    let closed: () => void;
+    const onClose = new Promise<void>((resolve) => {
+      closed = resolve;
+    });
+
+    const appRouter = t.router({
+      exportUsers: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/users/export',
+            responseContentType: 'application/x-ndjson',
+          },
+        })
+        .input(z.void())
+        .output(zodAsyncIterable(z.object({ id: z.number(), name: z.string() })))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          try {
+            for (let id = 0; ; id++) {
+              yield { id, name: 'Lily'.repeat(1000) };
+            }
+          } finally {
+            closed();
+          }
+        }),
+    });
+
+    const { url } = createHttpServerWithRouter({
+      router: appRouter,
+    });
+
+    const controller = new AbortController();
+    const res = await fetch(`${url}/users/export`, {
+      method: 'GET',
+      signal: controller.signal as any,
+    });
+
+    expect(res.status).toBe(200);
+
+    // the body is never read, so the response buffer fills up before the client is gone
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+
+    await onClose;
   });
 });
@@ -3,12 +3,20 @@ import { observable } from '@trpc/server/observable';
 import { z } from 'zod';
 import { extendZodWithOpenApi } from 'zod-openapi';
 
-import { GenerateOpenApiDocumentOptions, OpenApiMeta, generateOpenApiDocument } from '../src';
+import {
+  GenerateOpenApiDocumentOptions,
+  OpenApiMeta,
+  defaultErrorShape,
+  generateAsyncApiDocument,
+  generateOpenApiDocument,
+  zodAsyncIterable,
+  zodFile,
+} from '../src';
 import * as zodUtils from '../src/utils/zod';
 
 extendZodWithOpenApi(z);
 
-// TODO: test for duplicate paths (using getPathRegExp)
+// TODO: test for duplicate paths
 
 const t = initTRPC.meta<OpenApiMeta>().context<any>().create();
 
@@ -285,7 +293,7 @@ describe('generator', () => {
     }
   });
 
-  test('with unsupported subscription', () => {
+  test('with non-GET subscription', () => {
     const appRouter = t.router({
       currentName: t.procedure
         .meta({ openapi: { method: 'PATCH', path: '/current-name' } })
@@ -300,7 +308,7 @@ describe('generator', () => {
 
     expect(() => {
       generateOpenApiDocument(appRouter, defaultDocOpts);
-    }).toThrowError('[subscription.currentName] - Subscriptions are not supported by OpenAPI v3');
+    }).toThrowError('[subscription.currentName] - Subscriptions must use the GET method');
   });
 
   test('with void and path parameters', () => {
@@ -1167,6 +1175,65 @@ describe('generator', () => {
     expect(openApiDocument.paths!['/unsecure/endpoint']!.post!.security).toBeUndefined();
   });
 
+  test('with security requirements', () => {
+    const securitySchemes = {
+      OAuth2: {
+        type: 'oauth2' as const,
+        flows: {
+          clientCredentials: { tokenUrl: 'https://example.com/token', scopes: {} },
+        },
+      },
+      ApiKey: { type: 'apiKey' as const, in: 'header' as const, name: 'X-Api-Key' },
+      Bearer: { type: 'http' as const, scheme: 'bearer' },
+    };
+    {
+      const appRouter = t.router({
+        createPost: t.procedure
+          .meta({
+            openapi: {
+              method: 'POST',
+              path: '/posts',
+              security: [{ OAuth2: ['posts:write'] }, { ApiKey: [], Bearer: [] }],
+            },
+          })
+          .input(z.object({ title: z.string() }))
+          .output(z.object({ title: z.string() }))
+          .mutation(({ input }) => input),
+        listPosts: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/posts', security: [] } })
+          .input(z.void())
+          .output(z.array(z.object({ title: z.string() })))
+          .query(() => []),
+      });
+
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        securitySchemes,
+      });
+
+      expect(openApiDocument.paths!['/posts']!.post!.security).toEqual([
+        { OAuth2: ['posts:write'] },
+        { ApiKey: [], Bearer: [] },
+      ]);
+      expect(openApiDocument.paths!['/posts']!.post!.responses!['401']).toBeDefined();
+      expect(openApiDocument.paths!['/posts']!.get!.security).toEqual([]);
+      expect(openApiDocument.paths!['/posts']!.get!.responses!['401']).toBeUndefined();
+    }
+    {
+      const appRouter = t.router({
+        createPost: t.procedure
+          .meta({ openapi: { method: 'POST', path: '/posts', security: [{ Cookie: [] }] } })
+          .input(z.object({ title: z.string() }))
+          .output(z.object({ title: z.string() }))
+          .mutation(({ input }) => input),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, { ...defaultDocOpts, securitySchemes });
+      }).toThrowError('[mutation.createPost] - Security scheme "Cookie" is not defined');
+    }
+  });
+
   test('with schema descriptions', () => {
     const appRouter = t.router({
       createUser: t.procedure
@@ -2252,6 +2319,7 @@ describe('generator', () => {
       expect(openApiDocument.paths!['/arrayOfEnums']!.get!.parameters).toMatchInlineSnapshot(`
         Array [
           Object {
+            "explode": true,
             "in": "query",
             "name": "names",
             "required": true,
@@ -2265,12 +2333,147 @@ describe('generator', () => {
               },
               "type": "array",
             },
+            "style": "form",
           },
         ]
       `);
     }
   });
 
+  test('with array query params', () => {
+    {
+      const appRouter = t.router({
+        arrays: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/arrays' } })
+          .input(
+            z.object({
+              ids: z.array(z.number()),
+              tags: z
+                .array(z.string())
+                .optional()
+                .openapi({ param: { explode: false, description: 'Comma-separated tags' } }),
+            }),
+          )
+          .output(z.null())
+          .query(() => null),
+      });
+
+      const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+      expect(openApiDocument.paths!['/arrays']!.get!.parameters).toEqual([
+        {
+          in: 'query',
+          name: 'ids',
+          required: true,
+          style: 'form',
+          explode: true,
+          schema: { type: 'array', items: { type: 'number' } },
+        },
+        {
+          in: 'query',
+          name: 'tags',
+          style: 'form',
+          explode: false,
+          description: 'Comma-separated tags',
+          schema: { type: 'array', items: { type: 'string' } },
+        },
+      ]);
+    }
+    {
+      const appRouter = t.router({
+        arrays: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/arrays/{ids}' } })
+          .input(z.object({ ids: z.array(z.string()) }))
+          .output(z.null())
+          .query(() => null),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError('[query.arrays] - Path parameter: "ids" must not be an array');
+    }
+    {
+      const appRouter = t.router({
+        arrays: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/arrays' } })
+          .input(z.object({ ids: z.array(z.object({ id: z.string() })) }))
+          .output(z.null())
+          .query(() => null),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError(
+        '[query.arrays] - Input parser key: "ids" must be ZodString, ZodNumber, ZodBoolean, ZodBigInt or ZodDate',
+      );
+    }
+  });
+
+  test('with deepObject query params', () => {
+    {
+      const appRouter = t.router({
+        listIssues: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/issues' } })
+          .input(
+            z.object({
+              filter: z
+                .object({ status: z.enum(['open', 'closed']), createdAfter: z.date() })
+                .partial()
+                .optional(),
+            }),
+          )
+          .output(z.null())
+          .query(() => null),
+      });
+
+      const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+      expect(openApiDocument.paths!['/issues']!.get!.parameters).toEqual([
+        {
+          in: 'query',
+          name: 'filter',
+          style: 'deepObject',
+          explode: true,
+          schema: {
+            type: 'object',
+            properties: {
+              status: { type: 'string', enum: ['open', 'closed'] },
+              createdAfter: { type: 'string' },
+            },
+          },
+        },
+      ]);
+    }
+    {
+      const appRouter = t.router({
+        listIssues: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/issues/{filter}' } })
+          .input(z.object({ filter: z.object({ status: z.string() }) }))
+          .output(z.null())
+          .query(() => null),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError('[query.listIssues] - Path parameter: "filter" must not be an object');
+    }
+    {
+      const appRouter = t.router({
+        listIssues: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/issues' } })
+          .input(z.object({ filter: z.object({ labels: z.object({ name: z.string() }) }) }))
+          .output(z.null())
+          .query(() => null),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError(
+        '[query.listIssues] - Input parser key: "filter.labels" must be ZodString, ZodNumber, ZodBoolean, ZodBigInt or ZodDate',
+      );
+    }
+  });
+
   test('with native-enum', () => {
     {
       enum InvalidEnum {
@@ -2325,6 +2528,170 @@ describe('generator', () => {
     }
   });
 
+  test('with schema refs', () => {
+    const UserSchema = z.object({ id: z.string(), name: z.string() });
+    const PostSchema = z.object({ id: z.string(), author: UserSchema });
+    const RoleSchema = z.enum(['admin', 'member']).openapi({ ref: 'Role' });
+
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(UserSchema.extend({ role: RoleSchema }))
+        .query(() => ({ id: '1', name: 'Lily', role: 'admin' as const })),
+      getPost: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/posts/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(PostSchema)
+        .query(() => ({ id: '1', author: { id: '1', name: 'Lily' } })),
+      createPost: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/posts' } })
+        .input(PostSchema)
+        .output(PostSchema)
+        .mutation(({ input }) => input),
+    });
+
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        schemaRefs: { dedupe: true },
+      });
+
+      expect(
+        Object.keys(openApiDocument.components!.schemas!).filter(
+          (name) => !name.startsWith('error.'),
+        ),
+      ).toEqual(['GetPostOutput', 'GetPostOutputAuthor', 'Role']);
+      expect(
+        (openApiDocument.paths!['/posts']!.post!.requestBody as any).content['application/json']
+          .schema,
+      ).toEqual({ $ref: '#/components/schemas/GetPostOutput' });
+      expect(openApiDocument.paths!['/posts/{id}']!.get!.responses!['200']).toMatchObject({
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/GetPostOutput' } } },
+      });
+      expect(openApiDocument.components!.schemas!.GetPostOutput).toMatchObject({
+        properties: { author: { $ref: '#/components/schemas/GetPostOutputAuthor' } },
+      });
+    }
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        schemaRefs: {
+          getName: (schema) => {
+            if (schema === UserSchema) return 'User';
+            if (schema === PostSchema) return 'Post';
+            return undefined;
+          },
+        },
+      });
+
+      expect(
+        Object.keys(openApiDocument.components!.schemas!).filter(
+          (name) => !name.startsWith('error.'),
+        ),
+      ).toEqual(['Post', 'User', 'Role']);
+      expect(openApiDocument.components!.schemas!.Post).toMatchObject({
+        properties: { author: { $ref: '#/components/schemas/User' } },
+      });
+    }
+    {
+      expect(() => {
+        generateOpenApiDocument(appRouter, {
+          ...defaultDocOpts,
+          schemaRefs: {
+            getName: (schema) =>
+              schema === UserSchema || schema === PostSchema ? 'Role' : undefined,
+          },
+        });
+      }).toThrowError('Schema name "Role" is used by more than one schema');
+    }
+  });
+
+  test('with components', () => {
+    const RateLimitHeader = z.number().int().openapi({ description: 'Requests left.' });
+    const components = {
+      parameters: {
+        TraceId: { name: 'X-Trace-Id', in: 'header' as const, schema: { type: 'string' as const } },
+      },
+      responses: {
+        TooManyRequests: { description: 'Too many requests' },
+      },
+      examples: {
+        Lily: { value: { name: 'Lily' } },
+      },
+      headers: {
+        RateLimitRemaining: RateLimitHeader,
+      },
+    };
+
+    const appRouter = t.router({
+      createUser: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/users',
+            responseHeaders: z.object({ 'X-RateLimit-Remaining': RateLimitHeader }),
+            refs: {
+              parameters: ['TraceId'],
+              responses: { 429: 'TooManyRequests' },
+              requestExamples: ['Lily'],
+              responseExamples: ['Lily'],
+            },
+          },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => input),
+    });
+
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        components,
+      });
+
+      const operation = openApiDocument.paths!['/users']!.post!;
+      expect(operation.parameters).toEqual([{ $ref: '#/components/parameters/TraceId' }]);
+      expect(operation.responses!['429']).toEqual({
+        $ref: '#/components/responses/TooManyRequests',
+      });
+      expect((operation.requestBody as any).content['application/json'].examples).toEqual({
+        Lily: { $ref: '#/components/examples/Lily' },
+      });
+      expect(operation.responses!['200']).toMatchObject({
+        headers: {
+          'X-RateLimit-Remaining': { $ref: '#/components/headers/RateLimitRemaining' },
+        },
+        content: {
+          'application/json': { examples: { Lily: { $ref: '#/components/examples/Lily' } } },
+        },
+      });
+      expect(openApiDocument.components!.parameters).toEqual(components.parameters);
+      expect(openApiDocument.components!.headers!.RateLimitRemaining).toEqual({
+        required: true,
+        schema: { type: 'integer', description: 'Requests left.' },
+      });
+    }
+    {
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError('[mutation.createUser] - Unresolved reference "#/components/examples/Lily"');
+    }
+    {
+      expect(() => {
+        generateOpenApiDocument(appRouter, {
+          ...defaultDocOpts,
+          components,
+          paths: {
+            '/health': {
+              get: { responses: { '200': { $ref: '#/components/responses/Healthy' } } },
+            },
+          },
+        });
+      }).toThrowError('Unresolved reference "#/components/responses/Healthy"');
+    }
+  });
+
   test('with no refs', () => {
     const schemas = { emails: z.array(z.string().email()) };
 
@@ -2449,6 +2816,78 @@ describe('generator', () => {
     `);
   });
 
+  test('with header & cookie inputs', () => {
+    {
+      const appRouter = t.router({
+        updatePost: t.procedure
+          .meta({
+            openapi: {
+              method: 'PUT',
+              path: '/posts/{id}',
+              inputHeaders: { tenantId: 'X-Tenant-Id', etag: 'If-Match' },
+              inputCookies: { session: 'sid' },
+            },
+          })
+          .input(
+            z.object({
+              id: z.string(),
+              tenantId: z.number(),
+              etag: z.string().optional(),
+              session: z.string(),
+              title: z.string(),
+            }),
+          )
+          .output(z.object({ id: z.string() }))
+          .mutation(({ input }) => ({ id: input.id })),
+      });
+
+      const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+      expect(openApiDocument.paths!['/posts/{id}']!.put!.parameters).toEqual([
+        { in: 'path', name: 'id', required: true, schema: { type: 'string' } },
+        { in: 'cookie', name: 'sid', required: true, schema: { type: 'string' } },
+        { in: 'header', name: 'X-Tenant-Id', required: true, schema: { type: 'number' } },
+        { in: 'header', name: 'If-Match', schema: { type: 'string' } },
+      ]);
+      expect(
+        (openApiDocument.paths!['/posts/{id}']!.put!.requestBody as any).content['application/json']
+          .schema,
+      ).toEqual({
+        type: 'object',
+        properties: { title: { type: 'string' } },
+        required: ['title'],
+      });
+    }
+    {
+      const appRouter = t.router({
+        getPost: t.procedure
+          .meta({
+            openapi: { method: 'GET', path: '/post', inputHeaders: { tenantId: 'X-Tenant-Id' } },
+          })
+          .input(z.object({ id: z.string() }))
+          .output(z.object({ id: z.string() }))
+          .query(({ input }) => ({ id: input.id })),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError('[query.getPost] - Input parser expects key from header: "tenantId"');
+    }
+    {
+      const appRouter = t.router({
+        getPost: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/post', inputCookies: { ids: 'ids' } } })
+          .input(z.object({ ids: z.array(z.string()) }))
+          .output(z.object({ id: z.string() }))
+          .query(() => ({ id: '1' })),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError('[query.getPost] - Cookie parameter: "ids" must not be an array');
+    }
+  });
+
   test('with DELETE mutation', () => {
     const appRouter = t.router({
       deleteMutation: t.procedure
@@ -3012,57 +3451,198 @@ describe('generator', () => {
         Object.keys((openApiDocument.paths!['/with-default']!.post!.requestBody as any).content),
       ).toEqual(['application/json']);
     }
+    {
+      const appRouter = t.router({
+        withText: t.procedure
+          .meta({ openapi: { method: 'POST', path: '/with-text', contentTypes: ['text/plain'] } })
+          .input(z.string())
+          .output(z.object({ length: z.number() }))
+          .mutation(({ input }) => ({ length: input.length })),
+      });
+
+      const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+      expect(openApiDocument.paths!['/with-text']!.post!.requestBody).toEqual({
+        required: true,
+        content: { 'text/plain': { schema: { type: 'string' } } },
+      });
+    }
   });
 
-  test('with deprecated', () => {
+  test('with file fields', () => {
     const appRouter = t.router({
-      deprecated: t.procedure
-        .meta({ openapi: { method: 'POST', path: '/deprecated', deprecated: true } })
-        .input(z.object({ payload: z.string() }))
-        .output(z.object({ payload: z.string() }))
-        .mutation(({ input }) => ({ payload: input.payload })),
+      uploadAvatar: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/users/{id}/avatar' } })
+        .input(
+          z.object({
+            id: z.string(),
+            avatar: zodFile({ mimeTypes: ['image/png'] }),
+            attachments: z.array(zodFile()).optional(),
+          }),
+        )
+        .output(z.object({ size: z.number() }))
+        .mutation(({ input }) => ({ size: input.avatar.size })),
     });
 
     const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
 
-    expect(openApiDocument.paths!['/deprecated']!.post!.deprecated).toEqual(true);
+    expect(openApiDocument.paths!['/users/{id}/avatar']!.post!.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              avatar: { type: 'string', format: 'binary' },
+              attachments: { type: 'array', items: { type: 'string', format: 'binary' } },
+            },
+            required: ['avatar'],
+          },
+        },
+      },
+    });
   });
 
-  test('with security schemes', () => {
+  test('with response content types', () => {
     const appRouter = t.router({
-      protected: t.procedure
-        .meta({ openapi: { method: 'POST', path: '/protected', protect: true } })
-        .input(z.object({ payload: z.string() }))
-        .output(z.object({ payload: z.string() }))
-        .mutation(({ input }) => ({ payload: input.payload })),
+      exportCsv: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/export.csv', responseContentType: 'text/csv' } })
+        .input(z.void())
+        .output(z.string())
+        .query(() => 'id,name'),
+      exportPdf: t.procedure
+        .meta({
+          openapi: { method: 'GET', path: '/export.pdf', responseContentType: 'application/pdf' },
+        })
+        .input(z.void())
+        .output(z.instanceof(Buffer))
+        .query(() => Buffer.from('%PDF')),
     });
 
-    const openApiDocument = generateOpenApiDocument(appRouter, {
-      ...defaultDocOpts,
-      securitySchemes: {
-        ApiKey: {
-          type: 'apiKey',
-          in: 'header',
-          name: 'X-API-Key',
-        },
-      },
-    });
+    const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
 
-    expect(openApiDocument.components!.securitySchemes).toEqual({
-      ApiKey: {
-        type: 'apiKey',
-        in: 'header',
-        name: 'X-API-Key',
-      },
+    expect(openApiDocument.paths!['/export.csv']!.get!.responses!['200']).toEqual({
+      description: 'Successful response',
+      content: { 'text/csv': { schema: { type: 'string' } } },
+    });
+    expect(openApiDocument.paths!['/export.pdf']!.get!.responses!['200']).toEqual({
+      description: 'Successful response',
+      content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } },
     });
-    expect(openApiDocument.paths!['/protected']!.post!.security).toEqual([{ ApiKey: [] }]);
   });
 
-  test('with examples', () => {
-    const appRouter = t.router({
-      queryExample: t.procedure
-        .meta({
-          openapi: {
+  test('with success status', () => {
+    {
+      const appRouter = t.router({
+        createPost: t.procedure
+          .meta({
+            openapi: {
+              method: 'POST',
+              path: '/posts',
+              successStatus: 201,
+              responseHeaders: z.object({ Location: z.string() }),
+            },
+          })
+          .input(z.object({ title: z.string() }))
+          .output(z.object({ id: z.string() }))
+          .mutation(() => ({ id: '42' })),
+        deletePost: t.procedure
+          .meta({ openapi: { method: 'DELETE', path: '/posts/{id}', successStatus: 204 } })
+          .input(z.object({ id: z.string() }))
+          .output(z.void())
+          .mutation(() => undefined),
+      });
+
+      const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+      expect(Object.keys(openApiDocument.paths!['/posts']!.post!.responses!)).toEqual([
+        '201',
+        '400',
+        '401',
+        '403',
+        '500',
+      ]);
+      expect(openApiDocument.paths!['/posts']!.post!.responses!['201']).toEqual({
+        description: 'Successful response',
+        headers: { Location: { required: true, schema: { type: 'string' } } },
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { id: { type: 'string' } },
+              required: ['id'],
+            },
+          },
+        },
+      });
+      expect(openApiDocument.paths!['/posts/{id}']!.delete!.responses!['204']).toEqual({
+        description: 'Successful response',
+      });
+    }
+    {
+      const appRouter = t.router({
+        badStatus: t.procedure
+          .meta({ openapi: { method: 'POST', path: '/bad-status', successStatus: 404 } })
+          .input(z.void())
+          .output(z.void())
+          .mutation(() => undefined),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(appRouter, defaultDocOpts);
+      }).toThrowError('[mutation.badStatus] - Success status must be a 2xx status code');
+    }
+  });
+
+  test('with deprecated', () => {
+    const appRouter = t.router({
+      deprecated: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/deprecated', deprecated: true } })
+        .input(z.object({ payload: z.string() }))
+        .output(z.object({ payload: z.string() }))
+        .mutation(({ input }) => ({ payload: input.payload })),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+    expect(openApiDocument.paths!['/deprecated']!.post!.deprecated).toEqual(true);
+  });
+
+  test('with security schemes', () => {
+    const appRouter = t.router({
+      protected: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/protected', protect: true } })
+        .input(z.object({ payload: z.string() }))
+        .output(z.object({ payload: z.string() }))
+        .mutation(({ input }) => ({ payload: input.payload })),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, {
+      ...defaultDocOpts,
+      securitySchemes: {
+        ApiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+        },
+      },
+    });
+
+    expect(openApiDocument.components!.securitySchemes).toEqual({
+      ApiKey: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+      },
+    });
+    expect(openApiDocument.paths!['/protected']!.post!.security).toEqual([{ ApiKey: [] }]);
+  });
+
+  test('with examples', () => {
+    const appRouter = t.router({
+      queryExample: t.procedure
+        .meta({
+          openapi: {
             method: 'GET',
             path: '/query-example/{name}',
           },
@@ -3315,4 +3895,755 @@ describe('generator', () => {
     expect(openApiDocument.paths!['/public']).toBeDefined();
     expect(openApiDocument.paths!['/private']).toBeUndefined();
   });
+
+  test('with error data schemas', () => {
+    const appRouter = t.router({
+      createUser: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/users',
+            errorResponses: {
+              400: 'Invalid user',
+              409: { description: 'User exists', data: z.object({ ids: z.array(z.string()) }) },
+            },
+          },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => input),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+    expect(openApiDocument.paths!['/users']!.post!.responses!['409']).toMatchInlineSnapshot(`
+      Object {
+        "content": Object {
+          "application/json": Object {
+            "schema": Object {
+              "allOf": Array [
+                Object {
+                  "$ref": "#/components/schemas/error.CONFLICT",
+                },
+              ],
+              "properties": Object {
+                "data": Object {
+                  "properties": Object {
+                    "ids": Object {
+                      "items": Object {
+                        "type": "string",
+                      },
+                      "type": "array",
+                    },
+                  },
+                  "required": Array [
+                    "ids",
+                  ],
+                  "type": "object",
+                },
+              },
+              "required": Array [
+                "data",
+              ],
+            },
+          },
+        },
+        "description": "User exists",
+      }
+    `);
+  });
+
+  test('with problem details errors', () => {
+    const appRouter = t.router({
+      createUser: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/users',
+            errorResponses: {
+              400: 'Invalid user',
+              409: { description: 'User exists', data: z.object({ ids: z.array(z.string()) }) },
+            },
+          },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => input),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, {
+      ...defaultDocOpts,
+      errorFormat: 'problem',
+    });
+
+    const responses = openApiDocument.paths!['/users']!.post!.responses!;
+    expect(responses['400']).toEqual({
+      description: 'Invalid user',
+      content: {
+        'application/problem+json': {
+          schema: { $ref: '#/components/schemas/problem.BAD_REQUEST' },
+        },
+      },
+    });
+    expect(responses['409']).toMatchObject({
+      content: {
+        'application/problem+json': {
+          schema: { allOf: [{ $ref: '#/components/schemas/problem.CONFLICT' }] },
+        },
+      },
+    });
+    expect(openApiDocument.components!.schemas!['problem.BAD_REQUEST']).toMatchInlineSnapshot(`
+      Object {
+        "description": "The problem details",
+        "properties": Object {
+          "code": Object {
+            "description": "The error code",
+            "example": "BAD_REQUEST",
+            "type": "string",
+          },
+          "detail": Object {
+            "description": "The error message",
+            "example": "Invalid user",
+            "type": "string",
+          },
+          "instance": Object {
+            "description": "The path of the request that caused the error",
+            "type": "string",
+          },
+          "issues": Object {
+            "description": "An array of issues that were responsible for the error",
+            "example": Array [],
+            "items": Object {
+              "properties": Object {
+                "message": Object {
+                  "type": "string",
+                },
+              },
+              "required": Array [
+                "message",
+              ],
+              "type": "object",
+            },
+            "type": "array",
+          },
+          "status": Object {
+            "description": "The HTTP status code",
+            "example": 400,
+            "type": "integer",
+          },
+          "title": Object {
+            "description": "A short summary of the problem type",
+            "example": "Bad Request",
+            "type": "string",
+          },
+          "type": Object {
+            "description": "A URI reference identifying the problem type",
+            "example": "about:blank",
+            "type": "string",
+          },
+        },
+        "required": Array [
+          "type",
+          "title",
+          "status",
+          "detail",
+          "instance",
+          "code",
+        ],
+        "title": "Invalid user error (400)",
+        "type": "object",
+      }
+    `);
+  });
+
+  test('with error shape', () => {
+    const appRouter = t.router({
+      createUser: t.procedure
+        .meta({
+          openapi: {
+            method: 'POST',
+            path: '/users',
+            errorResponses: {
+              400: 'Invalid user',
+              409: { data: z.object({ ids: z.array(z.string()) }) },
+            },
+          },
+        })
+        .input(z.object({ name: z.string() }))
+        .output(z.object({ name: z.string() }))
+        .mutation(({ input }) => input),
+    });
+
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        errorShape: z.object({
+          requestId: z.string(),
+          message: z.number(),
+          data: z.object({ httpStatus: z.number() }),
+        }),
+      });
+
+      const responses = openApiDocument.paths!['/users']!.post!.responses!;
+      expect(responses['400']).toMatchObject({
+        content: {
+          'application/json': {
+            schema: {
+              allOf: [{ $ref: '#/components/schemas/error.BAD_REQUEST' }],
+              properties: {
+                requestId: { type: 'string' },
+                data: {
+                  type: 'object',
+                  properties: { httpStatus: { type: 'number' } },
+                  required: ['httpStatus'],
+                },
+              },
+              required: ['requestId', 'data'],
+            },
+          },
+        },
+      });
+      expect(responses['409']).toMatchObject({
+        content: {
+          'application/json': {
+            schema: {
+              allOf: [{ $ref: '#/components/schemas/error.CONFLICT' }],
+              properties: {
+                data: { properties: { ids: { type: 'array' } } },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      });
+    }
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        errorShape: defaultErrorShape,
+      });
+
+      expect(openApiDocument.paths!['/users']!.post!.responses!['400']).toMatchObject({
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                data: {
+                  properties: {
+                    code: { type: 'string' },
+                    httpStatus: { type: 'integer' },
+                    path: { type: 'string' },
+                    stack: { type: 'string' },
+                  },
+                  required: ['code', 'httpStatus'],
+                },
+              },
+            },
+          },
+        },
+      });
+    }
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        errorFormat: 'problem',
+        errorShape: defaultErrorShape,
+      });
+
+      expect(openApiDocument.paths!['/users']!.post!.responses!['400']).toMatchObject({
+        content: {
+          'application/problem+json': {
+            schema: { $ref: '#/components/schemas/problem.BAD_REQUEST' },
+          },
+        },
+      });
+    }
+  });
+
+  test('with custom error codes', () => {
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}', errorResponses: [404, 410] } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => input),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, {
+      ...defaultDocOpts,
+      errorCodes: { GONE: { status: 410, message: 'User was deleted' } },
+    });
+
+    expect(openApiDocument.paths!['/users/{id}']!.get!.responses!['410']).toEqual({
+      description: 'User was deleted',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/error.GONE' } } },
+    });
+    expect(openApiDocument.components!.schemas!['error.GONE']).toMatchObject({
+      title: 'User was deleted error (410)',
+      example: { code: 'GONE', message: 'User was deleted' },
+    });
+
+    // error codes only apply to the document they are passed to
+    const otherDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+    expect(otherDocument.components!.schemas!['error.GONE']).toBeUndefined();
+  });
+
+  test('with error codes replacing a built-in status', () => {
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}', errorResponses: [410] } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => input),
+      getPost: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/posts/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string() }))
+        .query(({ input }) => input),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, {
+      ...defaultDocOpts,
+      errorCodes: { NOT_FOUND: { status: 410 } },
+    });
+
+    expect(openApiDocument.paths!['/users/{id}']!.get!.responses!['410']).toEqual({
+      description: 'Not found',
+      content: {
+        'application/json': { schema: { $ref: '#/components/schemas/error.NOT_FOUND' } },
+      },
+    });
+    expect(Object.keys(openApiDocument.paths!['/posts/{id}']!.get!.responses!)).toEqual([
+      '200',
+      '400',
+      '401',
+      '403',
+      '410',
+      '500',
+    ]);
+    expect(openApiDocument.components!.schemas!['error.NOT_FOUND']).toMatchObject({
+      title: 'Not found error (410)',
+    });
+  });
+
+  test('with subscriptions', () => {
+    const appRouter = t.router({
+      onPrice: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/prices/{symbol}/events' } })
+        .input(z.object({ symbol: z.string(), lastEventId: z.string().optional() }))
+        .output(zodAsyncIterable(z.object({ symbol: z.string(), price: z.number() })))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .subscription(async function* ({ input }) {
+          yield { symbol: input.symbol, price: 1 };
+        }),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+    const operation = openApiDocument.paths!['/prices/{symbol}/events']!.get!;
+    expect(operation.operationId).toBe('onPrice');
+    expect(operation.parameters).toEqual([
+      { in: 'path', name: 'symbol', required: true, schema: { type: 'string' } },
+      { in: 'query', name: 'lastEventId', schema: { type: 'string' } },
+    ]);
+    expect(operation.responses!['200']).toEqual({
+      description: 'Successful response',
+      content: {
+        'text/event-stream': {
+          schema: {
+            type: 'object',
+            properties: { symbol: { type: 'string' }, price: { type: 'number' } },
+            required: ['symbol', 'price'],
+          },
+        },
+      },
+    });
+  });
+
+  test('with streamed responses', () => {
+    const UserSchema = z.object({ id: z.number(), name: z.string() });
+    const appRouter = t.router({
+      exportUsers: t.procedure
+        .meta({
+          openapi: {
+            method: 'GET',
+            path: '/users/export',
+            responseContentType: 'application/x-ndjson',
+          },
+        })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          yield { id: 1, name: 'Lily' };
+        }),
+      listUsers: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users' } })
+        .input(z.void())
+        .output(zodAsyncIterable(UserSchema))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .query(async function* () {
+          yield { id: 1, name: 'Lily' };
+        }),
+    });
+
+    const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+    const userSchema = {
+      type: 'object',
+      properties: { id: { type: 'number' }, name: { type: 'string' } },
+      required: ['id', 'name'],
+    };
+    expect(openApiDocument.paths!['/users/export']!.get!.responses!['200']).toEqual({
+      description: 'Successful response',
+      content: { 'application/x-ndjson': { schema: userSchema } },
+    });
+    expect(openApiDocument.paths!['/users']!.get!.responses!['200']).toEqual({
+      description: 'Successful response',
+      content: { 'application/json': { schema: { type: 'array', items: userSchema } } },
+    });
+  });
+
+  test('with asyncapi document', () => {
+    const PriceSchema = z
+      .object({ symbol: z.string(), price: z.number() })
+      .openapi({ ref: 'Price' });
+    const appRouter = t.router({
+      getPrice: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/prices/{symbol}' } })
+        .input(z.object({ symbol: z.string() }))
+        .output(PriceSchema)
+        .query(({ input }) => ({ symbol: input.symbol, price: 1 })),
+      prices: t.router({
+        onPrice: t.procedure
+          .meta({
+            openapi: {
+              method: 'GET',
+              path: '/prices/{symbol}/events',
+              summary: 'Price updates',
+              tags: ['prices'],
+            },
+          })
+          .input(
+            z.object({
+              symbol: z.string().describe('Ticker symbol'),
+              lastEventId: z.string().optional(),
+            }),
+          )
+          .output(zodAsyncIterable(PriceSchema))
+          // eslint-disable-next-line @typescript-eslint/require-await
+          .subscription(async function* ({ input }) {
+            yield { symbol: input.symbol, price: 1 };
+          }),
+      }),
+      onTick: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/ticks' } })
+        .input(z.void())
+        .output(zodAsyncIterable(z.number()))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .subscription(async function* () {
+          yield 1;
+        }),
+    });
+
+    const asyncApiDocument = generateAsyncApiDocument(appRouter, {
+      ...defaultDocOpts,
+      docsUrl: 'http://localhost:3000/docs',
+    });
+
+    expect(asyncApiDocument).toEqual({
+      asyncapi: '3.0.0',
+      info: {
+        title: 'tRPC OpenAPI',
+        version: '1.0.0',
+        externalDocs: { url: 'http://localhost:3000/docs' },
+      },
+      servers: { default: { host: 'localhost:3000', protocol: 'http', pathname: '/api' } },
+      defaultContentType: 'application/json',
+      channels: {
+        'prices-onPrice': {
+          address: '/prices/{symbol}/events',
+          parameters: { symbol: { description: 'Ticker symbol' } },
+          messages: { 'prices-onPrice': { $ref: '#/components/messages/prices-onPrice' } },
+        },
+        onTick: {
+          address: '/ticks',
+          messages: { onTick: { $ref: '#/components/messages/onTick' } },
+        },
+      },
+      operations: {
+        'prices-onPrice': {
+          action: 'receive',
+          channel: { $ref: '#/channels/prices-onPrice' },
+          messages: [{ $ref: '#/channels/prices-onPrice/messages/prices-onPrice' }],
+          summary: 'Price updates',
+          tags: [{ name: 'prices' }],
+          bindings: {
+            http: {
+              method: 'GET',
+              query: { type: 'object', properties: { lastEventId: { type: 'string' } } },
+              bindingVersion: '0.3.0',
+            },
+          },
+        },
+        onTick: {
+          action: 'receive',
+          channel: { $ref: '#/channels/onTick' },
+          messages: [{ $ref: '#/channels/onTick/messages/onTick' }],
+          bindings: { http: { method: 'GET', bindingVersion: '0.3.0' } },
+        },
+      },
+      components: {
+        messages: {
+          'prices-onPrice': {
+            name: 'prices-onPrice',
+            title: 'Price updates',
+            payload: { $ref: '#/components/schemas/Price' },
+          },
+          onTick: { name: 'onTick', payload: { type: 'number' } },
+        },
+        schemas: {
+          Price: {
+            type: 'object',
+            properties: { symbol: { type: 'string' }, price: { type: 'number' } },
+            required: ['symbol', 'price'],
+          },
+        },
+      },
+    });
+  });
+
+  test('with asyncapi document and non-GET subscription', () => {
+    const appRouter = t.router({
+      onPrice: t.procedure
+        .meta({ openapi: { method: 'POST', path: '/prices/events' } })
+        .input(z.object({ symbol: z.string() }))
+        .output(zodAsyncIterable(z.number()))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .subscription(async function* () {
+          yield 1;
+        }),
+    });
+
+    expect(() => {
+      generateAsyncApiDocument(appRouter, defaultDocOpts);
+    }).toThrowError('[subscription.onPrice] - Subscriptions must use the GET method');
+  });
+
+  test('with asyncapi document and relative baseUrl', () => {
+    const appRouter = t.router({
+      onTick: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/ticks' } })
+        .input(z.void())
+        .output(zodAsyncIterable(z.number()))
+        // eslint-disable-next-line @typescript-eslint/require-await
+        .subscription(async function* () {
+          yield 1;
+        }),
+    });
+
+    expect(() => {
+      generateAsyncApiDocument(appRouter, { ...defaultDocOpts, baseUrl: '/api' });
+    }).toThrowError('AsyncAPI documents require an absolute baseUrl, received "/api"');
+  });
+
+  test('with webhooks', () => {
+    const UserSchema = z.object({ id: z.string(), name: z.string() }).openapi({ ref: 'User' });
+    const appRouter = t.router({
+      getUser: t.procedure
+        .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+        .input(z.object({ id: z.string() }))
+        .output(UserSchema)
+        .query(({ input }) => ({ id: input.id, name: 'Lily' })),
+    });
+
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, {
+        ...defaultDocOpts,
+        openApiVersion: '3.1.0',
+        webhooks: {
+          userCreated: {
+            summary: 'User created',
+            tags: ['users'],
+            payload: z.object({ event: z.literal('user.created'), user: UserSchema }),
+            successDescription: 'Event received',
+          },
+          userDeleted: {
+            method: 'DELETE',
+            payload: z.object({ id: z.string() }),
+            contentType: 'application/x-www-form-urlencoded',
+            deprecated: true,
+          },
+        },
+      });
+
+      expect(openApiDocument.webhooks).toEqual({
+        userCreated: {
+          post: {
+            summary: 'User created',
+            tags: ['users'],
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      event: { type: 'string', const: 'user.created' },
+                      user: { $ref: '#/components/schemas/User' },
+                    },
+                    required: ['event', 'user'],
+                  },
+                },
+              },
+            },
+            responses: { '200': { description: 'Event received' } },
+          },
+        },
+        userDeleted: {
+          delete: {
+            requestBody: {
+              required: true,
+              content: {
+                'application/x-www-form-urlencoded': {
+                  schema: {
+                    type: 'object',
+                    properties: { id: { type: 'string' } },
+                    required: ['id'],
+                  },
+                },
+              },
+            },
+            responses: { '200': { description: 'Successful response' } },
+            deprecated: true,
+          },
+        },
+      });
+      expect(openApiDocument.components!.schemas!.User).toBeDefined();
+    }
+    {
+      expect(() => {
+        generateOpenApiDocument(appRouter, {
+          ...defaultDocOpts,
+          webhooks: { userCreated: { payload: UserSchema } },
+        });
+      }).toThrowError('Webhooks require OpenAPI 3.1, got 3.0.3');
+    }
+  });
+
+  test('with callbacks and links', () => {
+    const UserSchema = z.object({ id: z.string(), name: z.string() });
+    const appRouter = t.router({
+      users: t.router({
+        create: t.procedure
+          .meta({
+            openapi: {
+              method: 'POST',
+              path: '/users',
+              successStatus: 201,
+              callbacks: {
+                userImported: {
+                  url: '{$request.body#/callbackUrl}',
+                  summary: 'User imported',
+                  payload: z.object({ user: UserSchema }),
+                  successDescription: 'Callback received',
+                },
+              },
+              links: {
+                GetUser: {
+                  procedure: 'users.getById',
+                  parameters: { id: '$response.body#/id' },
+                  description: 'The created user',
+                },
+              },
+            },
+          })
+          .input(z.object({ name: z.string(), callbackUrl: z.string().url() }))
+          .output(UserSchema)
+          .mutation(({ input }) => ({ id: '1', name: input.name })),
+        getById: t.procedure
+          .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+          .input(z.object({ id: z.string() }))
+          .output(UserSchema)
+          .query(({ input }) => ({ id: input.id, name: 'Lily' })),
+      }),
+    });
+
+    {
+      const openApiDocument = generateOpenApiDocument(appRouter, defaultDocOpts);
+
+      const operation = openApiDocument.paths!['/users']!.post!;
+      expect(operation.responses!['201'].links).toEqual({
+        GetUser: {
+          operationId: 'users-getById',
+          parameters: { id: '$response.body#/id' },
+          description: 'The created user',
+        },
+      });
+      expect(operation.callbacks).toEqual({
+        userImported: {
+          '{$request.body#/callbackUrl}': {
+            post: {
+              summary: 'User imported',
+              requestBody: {
+                required: true,
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        user: {
+                          type: 'object',
+                          properties: { id: { type: 'string' }, name: { type: 'string' } },
+                          required: ['id', 'name'],
+                        },
+                      },
+                      required: ['user'],
+                    },
+                  },
+                },
+              },
+              responses: { '200': { description: 'Callback received' } },
+            },
+          },
+        },
+      });
+    }
+    {
+      expect(() => {
+        generateOpenApiDocument(appRouter, {
+          ...defaultDocOpts,
+          filter: ({ metadata }) => metadata.openapi.method !== 'GET',
+        });
+      }).toThrowError(
+        '[mutation.users.create] - Link "GetUser" references unknown procedure "users.getById"',
+      );
+    }
+    {
+      const refRouter = t.router({
+        createUser: t.procedure
+          .meta({
+            openapi: {
+              method: 'POST',
+              path: '/users',
+              refs: { responses: { 200: 'UserCreated' } },
+              links: { Self: { procedure: 'createUser' } },
+            },
+          })
+          .input(z.object({ name: z.string() }))
+          .output(UserSchema)
+          .mutation(({ input }) => ({ id: '1', name: input.name })),
+      });
+
+      expect(() => {
+        generateOpenApiDocument(refRouter, {
+          ...defaultDocOpts,
+          components: { responses: { UserCreated: { description: 'User created' } } },
+        });
+      }).toThrowError(
+        '[mutation.createUser] - Links cannot be added to a success response from `refs.responses`',
+      );
+    }
+  });
 });